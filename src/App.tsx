@@ -7,20 +7,30 @@ import { useAuthStore } from '@/stores/authStore';
 import { useChatStore } from '@/stores/chatStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useApiKeyStore } from '@/stores/apiKeyStore';
+import { useResearchStore } from '@/stores/researchStore';
+import { useModelStore, MODEL_CACHE_TTL } from '@/stores/modelStore';
 
 function App() {
   const { user, loading } = useAuthStore();
-  const { fetchConversations } = useChatStore();
-  const { fetchSettings } = useSettingsStore();
-  const { fetchKeys } = useApiKeyStore();
+  const { subscribeConversations } = useChatStore();
+  const { subscribeSettings } = useSettingsStore();
+  const { subscribeKeys } = useApiKeyStore();
+  const { fetchSessions } = useResearchStore();
+  const { refreshAll: refreshModels } = useModelStore();
 
   useEffect(() => {
-    if (user) {
-      fetchConversations();
-      fetchSettings();
-      fetchKeys();
-    }
-  }, [user, fetchConversations, fetchSettings, fetchKeys]);
+    if (!user) return;
+
+    const unsubscribers = [
+      subscribeConversations(),
+      subscribeSettings(),
+      // Model lists need the user's keys, so refresh whenever they change
+      subscribeKeys(() => refreshModels(MODEL_CACHE_TTL)),
+    ];
+    fetchSessions();
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [user, subscribeConversations, subscribeSettings, subscribeKeys, fetchSessions, refreshModels]);
 
   if (loading) {
     return (
@@ -3,15 +3,21 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { MessageBubble } from './MessageBubble';
 import { MessageInput } from './MessageInput';
 import { ThinkingIndicator } from './ThinkingIndicator';
+import { ResearchProgressPanel } from './ResearchProgressPanel';
+import { ComparePanel } from './ComparePanel';
 import { useChatStore } from '@/stores/chatStore';
 import { useToolStore } from '@/stores/toolStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useResearchStore } from '@/stores/researchStore';
+import { useCompareStore, MIN_COMPARE_MODELS } from '@/stores/compareStore';
 import { Sparkles } from 'lucide-react';
-import { createChat, sendMessage as sendGeminiMessage } from '@/lib/gemini/client';
-import { sendMessage as sendGroqMessage } from '@/lib/groq/client';
+import { toChatMessages } from '@/lib/providers';
+import { getQuotaBlock, sendWithFallback } from '@/lib/providers/fallback';
+import { withCost } from '@/lib/models/usage';
 
 export function ChatContainer() {
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
     const isGenerating = useChatStore(state => state.isGenerating);
     const error = useChatStore(state => state.error);
@@ -29,6 +35,10 @@ export function ChatContainer() {
     const currentToolCall = useToolStore(state => state.currentToolCall);
     const enabledToolIds = useToolStore(state => state.enabledToolIds);
     const { provider, modelId } = useSettingsStore();
+    const compareRun = useCompareStore(state => state.run);
+    const activeResearch = useResearchStore(state =>
+        state.sessions.find(s => s.id === state.activeSessionId)
+    );
 
     const messages = conversation?.messages ?? [];
 
@@ -41,6 +51,16 @@ export function ChatContainer() {
         const text = content.trim();
         if (!text) return;
 
+        const compare = useCompareStore.getState();
+        const isComparing = compare.enabled && compare.models.length >= MIN_COMPARE_MODELS;
+
+        // Refuse up front rather than add a message that is bound to fail
+        const quotaBlock = isComparing ? null : getQuotaBlock(provider, modelId);
+        if (quotaBlock) {
+            setError(quotaBlock);
+            return;
+        }
+
         // Ensure we have a conversation first
         let convId = useChatStore.getState().activeConversationId;
         if (!convId) {
@@ -49,10 +69,7 @@ export function ChatContainer() {
 
         // Get history BEFORE adding the new message
         const currentConversation = useChatStore.getState().conversations.find(c => c.id === convId);
-        const history = currentConversation?.messages.map(m => ({
-            role: m.role as 'user' | 'assistant',
-            content: m.content
-        })) || [];
+        const history = toChatMessages(currentConversation?.messages ?? []);
 
         // Add user message to UI immediately
         addMessage(convId, { role: 'user', content: text });
@@ -60,55 +77,60 @@ export function ChatContainer() {
         setGenerating(true);
         setError(null);
 
-        try {
-            let result;
-            const startTime = Date.now();
-            let fullAssistantText = '';
-
-            // Create placeholder assistant message for streaming
-            const assistantMessage = addMessage(convId, {
-                role: 'assistant',
-                content: '',
-                metadata: { isStreaming: true }
-            });
+        // In compare mode the user picks which answer becomes the assistant message
+        if (isComparing) {
+            try {
+                await compare.startCompare(convId, history, text);
+            } finally {
+                setGenerating(false);
+            }
+            return;
+        }
 
-            const onToken = (token: string) => {
-                fullAssistantText += token;
-                useChatStore.getState().updateMessage(convId, assistantMessage.id, {
-                    content: fullAssistantText
-                });
-            };
-
-            if (provider === 'gemini') {
-                const geminiHistory = history.map(m => ({
-                    role: m.role === 'assistant' ? 'model' : 'user',
-                    parts: [{ text: m.content }]
-                }));
-
-                const chat = createChat({
-                    model: modelId as any,
-                    enabledToolIds,
-                }, geminiHistory as any);
-
-                result = await sendGeminiMessage(
-                    chat,
-                    text,
-                    onToken,
-                    async (toolName, args) => {
-                        useToolStore.getState().setExecuting(true, { name: toolName, args });
-                    }
-                );
-            } else {
-                result = await sendGroqMessage(
-                    [...history, { role: 'user', content: text }],
-                    modelId,
-                    enabledToolIds,
-                    onToken,
-                    async (toolName, args) => {
-                        useToolStore.getState().setExecuting(true, { name: toolName, args });
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const startTime = Date.now();
+        let fullAssistantText = '';
+        // Research reports go below the reply that summarizes them, once the turn is over
+        const researchSessionIds: string[] = [];
+
+        // Create placeholder assistant message for streaming
+        const assistantMessage = addMessage(convId, {
+            role: 'assistant',
+            content: '',
+            metadata: { isStreaming: true }
+        });
+
+        try {
+            const result = await sendWithFallback({
+                provider,
+                modelId,
+                messages: [...history, { role: 'user', content: text }],
+                enabledToolIds,
+                signal: controller.signal,
+                onEvent: (event) => {
+                    if (event.type === 'token') {
+                        fullAssistantText += event.token;
+                        useChatStore.getState().updateMessage(convId, assistantMessage.id, {
+                            content: fullAssistantText
+                        });
+                    } else if (event.type === 'tool_call') {
+                        useToolStore.getState().setExecuting(true, { name: event.name, args: event.args });
+                    } else if (event.name === 'deep_research') {
+                        const sessionId = (event.result as { session_id?: string } | null)?.session_id;
+                        if (sessionId) researchSessionIds.push(sessionId);
                     }
-                );
-            }
+                },
+                onFallback: (fallback) => {
+                    // Drop whatever the failed model streamed before the retry
+                    fullAssistantText = '';
+                    useChatStore.getState().updateMessage(convId, assistantMessage.id, {
+                        content: '',
+                        metadata: { isStreaming: true, fallback },
+                    });
+                },
+            });
 
             const thinkingTime = Date.now() - startTime;
 
@@ -117,27 +139,54 @@ export function ChatContainer() {
                 content: result.text || fullAssistantText || 'I received an empty response from the AI.',
                 metadata: {
                     thinkingTime,
-                    toolName: result.toolCalls?.[0]?.name ?? undefined,
-                    toolResults: result.toolCalls ?? null,
-                    isStreaming: false
+                    toolName: result.toolCalls[0]?.name,
+                    toolResults: result.toolCalls.length > 0 ? result.toolCalls : null,
+                    isStreaming: false,
+                    model: { provider: result.provider, modelId: result.modelId },
+                    fallback: result.fallback,
+                    usage: result.usage && withCost(result.provider, result.modelId, result.usage),
                 },
             });
         } catch (err: any) {
+            const metadata = useChatStore.getState().conversations
+                .find(c => c.id === convId)?.messages
+                .find(m => m.id === assistantMessage.id)?.metadata;
+
+            if (controller.signal.aborted) {
+                // Keep what was streamed before the user stopped
+                useChatStore.getState().updateMessage(convId, assistantMessage.id, {
+                    content: fullAssistantText,
+                    metadata: {
+                        ...metadata,
+                        thinkingTime: Date.now() - startTime,
+                        isStreaming: false,
+                        stopped: true,
+                        model: { provider, modelId },
+                    },
+                });
+                return;
+            }
+
             console.error('Chat Error:', err);
             const errorMessage = err.message || 'An error occurred';
             setError(errorMessage);
 
-            addMessage(convId, {
-                role: 'assistant',
+            useChatStore.getState().updateMessage(convId, assistantMessage.id, {
                 content: `Error: ${errorMessage}. Please check your API keys and connection.`,
-                metadata: { error: errorMessage },
+                metadata: { ...metadata, isStreaming: false, error: errorMessage },
             });
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setGenerating(false);
             useToolStore.getState().setExecuting(false);
+            researchSessionIds.forEach(id => useResearchStore.getState().postReport(id));
         }
     }, [provider, modelId, enabledToolIds, addMessage, createConversation, setError, setGenerating]);
 
+    const handleStop = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
+
     return (
         <div className="flex flex-col h-full bg-bg-app">
             {/* Messages area */}
@@ -154,7 +203,14 @@ export function ChatContainer() {
                         ))}
 
                         <AnimatePresence>
-                            {isGenerating && (
+                            {compareRun && compareRun.conversationId === conversation?.id ? (
+                                <ComparePanel key={compareRun.id} />
+                            ) : activeResearch && activeResearch.conversationId === conversation?.id ? (
+                                <ResearchProgressPanel
+                                    key={activeResearch.id}
+                                    sessionId={activeResearch.id}
+                                />
+                            ) : isGenerating && (
                                 <ThinkingIndicator
                                     toolName={currentToolCall?.name}
                                 />
@@ -171,7 +227,10 @@ export function ChatContainer() {
                 <div className="max-w-4xl mx-auto w-full">
                     <MessageInput
                         onSend={handleSendMessage}
+                        onStop={compareRun ? undefined : handleStop}
                         isGenerating={isGenerating}
+                        disabled={!!compareRun}
+                        placeholder={compareRun ? 'Pick or discard the compared answers to continue...' : undefined}
                         error={error}
                     />
                 </div>
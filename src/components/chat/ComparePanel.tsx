@@ -0,0 +1,107 @@
+// Side-by-side answers from compare mode, one column per model
+import { motion } from 'framer-motion';
+import { Clock, Check, X, AlertCircle, Columns3 } from 'lucide-react';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { Button } from '@/components/ui/Button';
+import { useCompareStore } from '@/stores/compareStore';
+import { useModelStore } from '@/stores/modelStore';
+
+export function ComparePanel() {
+    const run = useCompareStore(state => state.run);
+    const pickAnswer = useCompareStore(state => state.pickAnswer);
+    const discardRun = useCompareStore(state => state.discardRun);
+    const getModel = useModelStore(state => state.getModel);
+
+    if (!run) return null;
+
+    const isRunning = run.answers.some(a => a.isStreaming);
+    const fastest = Math.min(...run.answers.filter(a => !a.error && a.thinkingTime).map(a => a.thinkingTime!));
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="px-4 py-4 space-y-3"
+        >
+            <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 text-xs font-semibold text-dark-400 uppercase tracking-wider">
+                    <Columns3 size={14} className="text-accent-primary" />
+                    {isRunning ? 'Comparing models...' : 'Pick the answer to keep'}
+                </span>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={discardRun}
+                    leftIcon={<X size={14} />}
+                >
+                    Discard
+                </Button>
+            </div>
+
+            <div className={`grid grid-cols-1 gap-3 ${run.answers.length === 3 ? 'lg:grid-cols-3' : 'md:grid-cols-2'}`}>
+                {run.answers.map((answer, index) => {
+                    const model = getModel(answer.model.provider, answer.model.modelId);
+                    const canPick = !answer.isStreaming && !answer.error && !!answer.content;
+
+                    return (
+                        <div
+                            key={`${answer.model.provider}:${answer.model.modelId}`}
+                            className="flex flex-col min-w-0 bg-dark-800/50 border border-dark-700 rounded-2xl overflow-hidden"
+                        >
+                            {/* Column header */}
+                            <div className="flex items-center justify-between gap-2 px-4 py-2.5 border-b border-dark-700 bg-dark-800">
+                                <span className="text-sm font-medium text-dark-100 truncate">
+                                    {model?.name ?? answer.model.modelId}
+                                </span>
+                                <span className={`flex items-center gap-1 text-xs flex-shrink-0 ${answer.thinkingTime === fastest ? 'text-green-400' : 'text-dark-500'}`}>
+                                    <Clock size={12} />
+                                    {answer.thinkingTime !== undefined
+                                        ? `${(answer.thinkingTime / 1000).toFixed(1)}s`
+                                        : '...'}
+                                </span>
+                            </div>
+
+                            {/* Answer */}
+                            <div className="flex-1 px-4 py-2 max-h-[60vh] overflow-y-auto text-sm">
+                                {answer.error ? (
+                                    <div className="flex items-center gap-2 my-2 p-2 rounded-lg bg-red-500/10 border border-red-500/20">
+                                        <AlertCircle size={14} className="text-red-400 flex-shrink-0" />
+                                        <span className="text-sm text-red-400">{answer.error}</span>
+                                    </div>
+                                ) : answer.content ? (
+                                    <MarkdownRenderer content={answer.content} />
+                                ) : (
+                                    <div className="flex gap-1 py-3">
+                                        {[0, 1, 2].map(i => (
+                                            <span
+                                                key={i}
+                                                className="w-1.5 h-1.5 rounded-full bg-dark-500 animate-bounce"
+                                                style={{ animationDelay: `${i * 0.15}s` }}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="px-4 py-2.5 border-t border-dark-700">
+                                <Button
+                                    variant="secondary"
+                                    size="sm"
+                                    onClick={() => pickAnswer(index)}
+                                    disabled={!canPick}
+                                    leftIcon={<Check size={14} />}
+                                    className="w-full"
+                                >
+                                    Keep this answer
+                                </Button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </motion.div>
+    );
+}
+
+export default ComparePanel;
@@ -1,10 +1,18 @@
 // Message bubble component
 import { memo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { User, Sparkles, AlertCircle, Clock, Globe, Copy, Check } from 'lucide-react';
+import { User, Sparkles, AlertCircle, Clock, Coins, Globe, Copy, Check, Shuffle, Square } from 'lucide-react';
 import { MarkdownRenderer } from './MarkdownRenderer';
-import type { Message } from '@/types/chat';
-import { formatDate } from '@/utils/helpers';
+import { Tooltip } from '@/components/ui/Tooltip';
+import { useModelStore } from '@/stores/modelStore';
+import type { FallbackReason, Message } from '@/types/chat';
+import { formatCost, formatDate, formatTokens } from '@/utils/helpers';
+
+const FALLBACK_REASONS: Record<FallbackReason, string> = {
+    rate_limited: 'was rate limited',
+    unavailable: 'was unavailable',
+    quota_exhausted: 'had used up its daily quota',
+};
 
 interface MessageBubbleProps {
     message: Message;
@@ -15,6 +23,17 @@ export const MessageBubble = memo(function MessageBubble({ message }: MessageBub
     const isUser = message.role === 'user';
     const isAssistant = message.role === 'assistant';
     const isTool = message.role === 'tool';
+    const answeredBy = message.metadata?.model;
+    const fallback = message.metadata?.fallback;
+    const usage = message.metadata?.usage;
+    const modelName = useModelStore(state => answeredBy
+        ? state.getModel(answeredBy.provider, answeredBy.modelId)?.name ?? answeredBy.modelId
+        : undefined
+    );
+    const fallbackFromName = useModelStore(state => fallback
+        ? state.getModel(fallback.fromProvider, fallback.fromModelId)?.name ?? fallback.fromModelId
+        : undefined
+    );
 
     const handleCopy = async () => {
         try {
@@ -87,6 +106,31 @@ export const MessageBubble = memo(function MessageBubble({ message }: MessageBub
                             {(message.metadata.thinkingTime / 1000).toFixed(1)}s
                         </span>
                     )}
+                    {usage && (
+                        <Tooltip content={`${usage.inputTokens.toLocaleString()} in · ${usage.outputTokens.toLocaleString()} out${usage.cost !== undefined ? ` · ~${formatCost(usage.cost)}` : ''}`}>
+                            <span className="flex items-center gap-1 text-xs text-dark-500">
+                                <Coins size={12} />
+                                {formatTokens(usage.totalTokens)} tokens
+                            </span>
+                        </Tooltip>
+                    )}
+                    {modelName && (
+                        <span className="text-xs text-dark-500">{modelName}</span>
+                    )}
+                    {fallback && (
+                        <Tooltip content={`Answered by the fallback model because ${fallbackFromName} ${FALLBACK_REASONS[fallback.reason]}`}>
+                            <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium text-yellow-400 bg-yellow-500/10 rounded">
+                                <Shuffle size={10} />
+                                Fallback
+                            </span>
+                        </Tooltip>
+                    )}
+                    {message.metadata?.stopped && (
+                        <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium text-dark-400 bg-dark-700 rounded">
+                            <Square size={8} className="fill-current" />
+                            Stopped
+                        </span>
+                    )}
                 </div>
 
                 {/* Message content */}
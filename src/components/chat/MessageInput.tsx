@@ -1,10 +1,12 @@
 // Message input component
 import { useState, useRef, useEffect, type KeyboardEvent, type FormEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Sparkles, Loader2, AlertCircle } from 'lucide-react';
+import { Send, Sparkles, Loader2, Square, AlertCircle } from 'lucide-react';
 
 interface MessageInputProps {
     onSend: (message: string) => void;
+    // Shown in place of the send button while generating
+    onStop?: () => void;
     isGenerating: boolean;
     disabled?: boolean;
     placeholder?: string;
@@ -13,6 +15,7 @@ interface MessageInputProps {
 
 export function MessageInput({
     onSend,
+    onStop,
     isGenerating,
     disabled = false,
     placeholder = 'Send a message...',
@@ -56,6 +59,7 @@ export function MessageInput({
     };
 
     const canSend = input.trim().length > 0 && !isGenerating && !disabled;
+    const canStop = isGenerating && !!onStop;
 
     return (
         <div className="bg-transparent">
@@ -96,27 +100,40 @@ export function MessageInput({
                         style={{ scrollbarWidth: 'none' }}
                     />
 
-                    {/* Send button */}
-                    <motion.button
-                        type="submit"
-                        disabled={!canSend}
-                        whileHover={{ scale: canSend ? 1.05 : 1 }}
-                        whileTap={{ scale: canSend ? 0.95 : 1 }}
-                        className={`
+                    {/* Send / stop button */}
+                    {canStop ? (
+                        <motion.button
+                            type="button"
+                            onClick={onStop}
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            className="flex-shrink-0 flex items-center justify-center w-10 h-10 mb-0.5 rounded-2xl bg-dark-700 text-dark-100 hover:bg-red-500/20 hover:text-red-400 transition-all duration-300 shadow-lg"
+                            title="Stop generating"
+                        >
+                            <Square size={14} className="fill-current" />
+                        </motion.button>
+                    ) : (
+                        <motion.button
+                            type="submit"
+                            disabled={!canSend}
+                            whileHover={{ scale: canSend ? 1.05 : 1 }}
+                            whileTap={{ scale: canSend ? 0.95 : 1 }}
+                            className={`
               flex-shrink-0 flex items-center justify-center w-10 h-10 mb-0.5 rounded-2xl
               transition-all duration-300 shadow-lg
               ${canSend
-                                ? 'bg-gradient-to-br from-accent-primary to-accent-hover text-white shadow-accent-primary/25'
-                                : 'bg-dark-700 text-dark-500 cursor-not-allowed opacity-50'
-                            }
+                                    ? 'bg-gradient-to-br from-accent-primary to-accent-hover text-white shadow-accent-primary/25'
+                                    : 'bg-dark-700 text-dark-500 cursor-not-allowed opacity-50'
+                                }
             `}
-                    >
-                        {isGenerating ? (
-                            <Loader2 size={18} className="animate-spin" />
-                        ) : (
-                            <Send size={18} className={canSend ? "translate-x-0.5 -translate-y-0.5" : ""} />
-                        )}
-                    </motion.button>
+                        >
+                            {isGenerating ? (
+                                <Loader2 size={18} className="animate-spin" />
+                            ) : (
+                                <Send size={18} className={canSend ? "translate-x-0.5 -translate-y-0.5" : ""} />
+                            )}
+                        </motion.button>
+                    )}
                 </div>
 
                 {/* Helper text */}
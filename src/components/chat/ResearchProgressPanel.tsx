@@ -0,0 +1,177 @@
+// Live progress panel for a running deep research session
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+    Microscope,
+    ListChecks,
+    Search,
+    FileSearch,
+    PenLine,
+    MessageSquareWarning,
+    CheckCircle2,
+    XCircle,
+    Globe,
+    Clock,
+    Square,
+    ClipboardList,
+    type LucideIcon
+} from 'lucide-react';
+import { ResearchPlanEditor } from '@/components/research/ResearchPlanEditor';
+import { FindingItem } from '@/components/research/FindingItem';
+import { useResearchStore } from '@/stores/researchStore';
+import { formatDuration } from '@/utils/helpers';
+import type { ResearchPhase } from '@/types/research';
+
+const PHASE_LABELS: Record<ResearchPhase, { label: string; icon: LucideIcon }> = {
+    idle: { label: 'Waiting to start', icon: Clock },
+    planning: { label: 'Planning queries', icon: ListChecks },
+    reviewing: { label: 'Waiting for plan approval', icon: ClipboardList },
+    searching: { label: 'Searching the web', icon: Search },
+    analyzing: { label: 'Analyzing sources', icon: FileSearch },
+    synthesizing: { label: 'Synthesizing findings', icon: PenLine },
+    critiquing: { label: 'Reviewing for gaps', icon: MessageSquareWarning },
+    complete: { label: 'Research complete', icon: CheckCircle2 },
+    failed: { label: 'Research failed', icon: XCircle },
+};
+
+interface ResearchProgressPanelProps {
+    sessionId: string;
+}
+
+export function ResearchProgressPanel({ sessionId }: ResearchProgressPanelProps) {
+    const session = useResearchStore(state => state.sessions.find(s => s.id === sessionId));
+    const cancelResearch = useResearchStore(state => state.cancelResearch);
+    const approvePlan = useResearchStore(state => state.approvePlan);
+    const pendingPlan = useResearchStore(state =>
+        state.pendingPlan?.sessionId === sessionId ? state.pendingPlan.plan : null
+    );
+    const [now, setNow] = useState(() => Date.now());
+
+    const isRunning = session && session.status !== 'complete' && session.status !== 'failed';
+
+    // Tick the elapsed timer while the run is in progress
+    useEffect(() => {
+        if (!isRunning) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [isRunning]);
+
+    if (!session) return null;
+
+    const { progress } = session;
+    const phase = PHASE_LABELS[progress.phase];
+    const PhaseIcon = phase.icon;
+    const startedAt = new Date(session.createdAt).getTime();
+    const endedAt = session.completedAt ? new Date(session.completedAt).getTime() : now;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="flex items-start gap-3 p-4"
+        >
+            {/* Avatar */}
+            <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gradient-to-br from-accent-primary to-blue-500 flex items-center justify-center">
+                <Microscope size={16} className="text-white" />
+            </div>
+
+            <div className="flex-1 min-w-0 p-4 bg-dark-800/50 border border-dark-700 rounded-2xl space-y-3">
+                {/* Topic */}
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-dark-100 truncate">
+                        Researching: {session.topic}
+                    </span>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="flex items-center gap-1 text-xs text-dark-500">
+                            <Clock size={12} />
+                            {formatDuration(Math.max(0, endedAt - startedAt))}
+                        </span>
+                        {isRunning && (
+                            <button
+                                onClick={() => cancelResearch(session.id)}
+                                className="flex items-center gap-1 px-2 py-1 text-xs text-dark-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                title="Stop research (progress is saved and can be resumed)"
+                            >
+                                <Square size={10} className="fill-current" />
+                                Stop
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Phase and progress bar */}
+                <div className="space-y-1.5">
+                    <div className="flex items-center justify-between text-xs">
+                        <span className={`flex items-center gap-1.5 font-medium ${progress.phase === 'failed' ? 'text-red-400' : 'text-accent-primary'}`}>
+                            <PhaseIcon size={14} />
+                            {phase.label}
+                        </span>
+                        <span className="text-dark-400 font-mono">{progress.percentComplete}%</span>
+                    </div>
+                    <div className="w-full h-1.5 bg-dark-700 rounded-full overflow-hidden">
+                        <motion.div
+                            className="h-full bg-gradient-to-r from-accent-primary to-blue-500"
+                            initial={{ width: 0 }}
+                            animate={{ width: `${progress.percentComplete}%` }}
+                            transition={{ duration: 0.4 }}
+                        />
+                    </div>
+                </div>
+
+                {/* Counters */}
+                <div className="flex flex-wrap items-center gap-3 text-xs text-dark-400">
+                    <span>
+                        Iteration <span className="text-dark-200 font-medium">{progress.iteration}</span> / {progress.maxIterations}
+                    </span>
+                    <span className="flex items-center gap-1">
+                        <Globe size={12} />
+                        <span className="text-dark-200 font-medium">{progress.sourcesFound}</span> sources
+                    </span>
+                    <span>
+                        <span className="text-dark-200 font-medium">{session.queries.length}</span> queries
+                    </span>
+                </div>
+
+                {/* Plan review */}
+                {pendingPlan && (
+                    <div className="pt-3 border-t border-dark-700">
+                        <ResearchPlanEditor
+                            plan={pendingPlan}
+                            onApprove={(plan) => approvePlan(session.id, plan)}
+                            onCancel={() => cancelResearch(session.id)}
+                        />
+                    </div>
+                )}
+
+                {/* Current query */}
+                {progress.currentQuery && (
+                    <div className="flex items-center gap-2 px-2 py-1.5 text-xs text-dark-300 bg-dark-900/60 rounded-lg">
+                        <Search size={12} className="flex-shrink-0 text-dark-500" />
+                        <span className="truncate">{progress.currentQuery}</span>
+                    </div>
+                )}
+
+                {/* Streamed findings */}
+                <AnimatePresence initial={false}>
+                    {progress.findings.map((finding, index) => (
+                        <motion.div
+                            key={index}
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            className="pt-2 border-t border-dark-700"
+                        >
+                            <FindingItem finding={finding} sources={session.sources} compact />
+                        </motion.div>
+                    ))}
+                </AnimatePresence>
+
+                {session.error && (
+                    <p className="text-xs text-red-400">{session.error}</p>
+                )}
+            </div>
+        </motion.div>
+    );
+}
+
+export default ResearchProgressPanel;
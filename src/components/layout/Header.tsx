@@ -14,6 +14,8 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/Button';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { ModelSelector } from '@/components/ui/ModelSelector';
+import { CompareSelector } from '@/components/ui/CompareSelector';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
 import { useChatStore } from '@/stores/chatStore';
 import { useUsageStore } from '@/stores/usageStore';
 import { useAuthStore } from '@/stores/authStore';
@@ -72,14 +74,15 @@ export function Header({ onToggleSidebar, onToggleSettings }: HeaderProps) {
             </div>
 
             {/* Center section - Model selector (Responsive) */}
-            <div className="flex-1 flex justify-center max-w-[200px] md:max-w-none">
+            <div className="flex-1 flex justify-center items-center gap-2 max-w-[200px] md:max-w-none">
                 <ModelSelector />
+                <CompareSelector />
             </div>
 
             {/* Right section */}
             <div className="flex items-center gap-1 md:gap-2">
                 {/* Usage indicator - Hidden on mobile */}
-                <Tooltip content={`API: ${stats.gemini.percent}% | Search: ${stats.tavily.percent}%`}>
+                <Tooltip content={`Gemini: ${stats.gemini.percent}% | Groq: ${stats.groq.percent}% | Search: ${stats.tavily.percent}% | Weather: ${stats.weather.percent}%`}>
                     <div className="hidden lg:flex items-center gap-2 px-2 py-1 rounded-lg">
                         <div className="w-16 h-1.5 bg-dark-700 rounded-full overflow-hidden">
                             <motion.div
@@ -92,6 +95,9 @@ export function Header({ onToggleSidebar, onToggleSettings }: HeaderProps) {
                     </div>
                 </Tooltip>
 
+                {/* Sync status */}
+                {user && <SyncStatusIndicator />}
+
                 {/* New chat button - Ghost on small desktop, Icon on mobile */}
                 <Tooltip content="New Chat">
                     <button
@@ -0,0 +1,166 @@
+// Keys tab section for encrypting API keys with a passphrase
+import { useState } from 'react';
+import { Lock, LockOpen, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useApiKeyStore, LOCK_TIMEOUT_OPTIONS } from '@/stores/apiKeyStore';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = 'w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none';
+
+export function KeyEncryptionSettings() {
+    const {
+        vault,
+        unlocked,
+        lockTimeoutMinutes,
+        enableEncryption,
+        disableEncryption,
+        unlock,
+        lock,
+        setLockTimeout
+    } = useApiKeyStore();
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const reset = () => {
+        setPassphrase('');
+        setConfirmation('');
+        setError(null);
+    };
+
+    const handleEnable = async () => {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+            return;
+        }
+        if (passphrase !== confirmation) {
+            setError('Passphrases do not match');
+            return;
+        }
+
+        setBusy(true);
+        try {
+            await enableEncryption(passphrase);
+            reset();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Encryption failed');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleUnlock = async () => {
+        setBusy(true);
+        const ok = await unlock(passphrase);
+        setBusy(false);
+        if (ok) reset();
+        else setError('Wrong passphrase');
+    };
+
+    const header = (
+        <div className="flex items-center gap-2 mb-1">
+            {vault ? <ShieldCheck size={14} className="text-green-400" /> : <ShieldOff size={14} className="text-dark-500" />}
+            <label className="text-sm font-bold text-dark-100 uppercase tracking-wider">
+                Encryption
+            </label>
+        </div>
+    );
+
+    if (!vault) {
+        return (
+            <div className="space-y-3">
+                {header}
+                <p className="text-[11px] text-dark-500 leading-relaxed px-1">
+                    Encrypt your keys with a passphrase before they are saved or synced. The passphrase never leaves this device and cannot be recovered.
+                </p>
+                <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    className={inputClass}
+                />
+                <input
+                    type="password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    placeholder="Repeat passphrase"
+                    className={inputClass}
+                />
+                {error && <p className="text-xs text-red-400 px-1">{error}</p>}
+                <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={handleEnable}
+                    isLoading={busy}
+                    disabled={!passphrase}
+                    leftIcon={<Lock size={14} />}
+                >
+                    Encrypt keys
+                </Button>
+            </div>
+        );
+    }
+
+    if (!unlocked) {
+        return (
+            <div className="space-y-3">
+                {header}
+                <p className="text-[11px] text-dark-500 leading-relaxed px-1">
+                    Your keys are locked. Enter your passphrase to use and edit them.
+                </p>
+                <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                    placeholder="Passphrase"
+                    className={inputClass}
+                />
+                {error && <p className="text-xs text-red-400 px-1">{error}</p>}
+                <Button
+                    size="sm"
+                    onClick={handleUnlock}
+                    isLoading={busy}
+                    disabled={!passphrase}
+                    leftIcon={<LockOpen size={14} />}
+                >
+                    Unlock
+                </Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {header}
+            <p className="text-[11px] text-dark-500 leading-relaxed px-1">
+                Keys are encrypted at rest and unlocked for this session only.
+            </p>
+            <div className="flex items-center justify-between gap-2 px-1">
+                <span className="text-xs text-dark-300">Lock after inactivity</span>
+                <select
+                    value={lockTimeoutMinutes}
+                    onChange={(e) => setLockTimeout(Number(e.target.value))}
+                    className="px-3 py-1.5 bg-dark-800 border border-dark-700 rounded-xl text-xs text-dark-100 focus:outline-none focus:border-accent-primary"
+                >
+                    {LOCK_TIMEOUT_OPTIONS.map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes} min</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex gap-2">
+                <Button size="sm" variant="secondary" onClick={lock} leftIcon={<Lock size={14} />}>
+                    Lock now
+                </Button>
+                <Button size="sm" variant="ghost" onClick={disableEncryption} leftIcon={<ShieldOff size={14} />}>
+                    Remove encryption
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+export default KeyEncryptionSettings;
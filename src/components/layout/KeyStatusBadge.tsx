@@ -0,0 +1,61 @@
+// Health of one provider key, with a button to check it again
+import { CheckCircle2, Gauge, Loader2, RefreshCw, WifiOff, XCircle, type LucideIcon } from 'lucide-react';
+import { Tooltip } from '@/components/ui/Tooltip';
+import { useApiKeyStore, type APIKeys } from '@/stores/apiKeyStore';
+import type { KeyStatus } from '@/lib/keys/validation';
+
+const STATUS_DISPLAY: Record<KeyStatus, { icon: LucideIcon; label: string; className: string }> = {
+    valid: { icon: CheckCircle2, label: 'Valid', className: 'text-green-400' },
+    invalid: { icon: XCircle, label: 'Invalid key', className: 'text-red-400' },
+    quota_exceeded: { icon: Gauge, label: 'Quota exceeded', className: 'text-yellow-400' },
+    unreachable: { icon: WifiOff, label: 'Could not reach provider', className: 'text-dark-400' },
+};
+
+interface KeyStatusBadgeProps {
+    provider: keyof APIKeys;
+}
+
+export function KeyStatusBadge({ provider }: KeyStatusBadgeProps) {
+    const result = useApiKeyStore(state => state.keyStatus[provider]);
+    const isChecking = useApiKeyStore(state => state.checkingKeys.includes(provider));
+    const checkKeys = useApiKeyStore(state => state.checkKeys);
+
+    if (!result && !isChecking) return null;
+
+    const display = result && STATUS_DISPLAY[result.status];
+    const details = result && [
+        display!.label,
+        result.message,
+        `checked ${new Date(result.checkedAt).toLocaleTimeString()}`,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="flex items-center justify-between gap-2 px-1 text-[11px]">
+            {isChecking || !display ? (
+                <span className="flex items-center gap-1 text-dark-500">
+                    <Loader2 size={12} className="animate-spin" />
+                    Checking...
+                </span>
+            ) : (
+                <Tooltip content={details!}>
+                    <span className={`flex items-center gap-1 ${display.className}`}>
+                        <display.icon size={12} />
+                        {display.label}
+                    </span>
+                </Tooltip>
+            )}
+            <button
+                type="button"
+                onClick={() => checkKeys([provider])}
+                disabled={isChecking}
+                className="flex items-center gap-1 text-dark-500 hover:text-dark-200 transition-colors disabled:opacity-50"
+                title="Check this key again"
+            >
+                <RefreshCw size={12} />
+                Re-check
+            </button>
+        </div>
+    );
+}
+
+export default KeyStatusBadge;
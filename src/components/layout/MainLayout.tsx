@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
 import { SettingsSidebar } from './SettingsSidebar';
+import { UnlockKeysModal } from './UnlockKeysModal';
+import { ResearchSessionModal } from '@/components/research/ResearchSessionModal';
 
 interface MainLayoutProps {
     children: React.ReactNode;
@@ -42,6 +44,12 @@ export function MainLayout({ children }: MainLayoutProps) {
                 onClose={() => setIsSettingsOpen(false)}
             />
 
+            {/* Saved research session viewer */}
+            <ResearchSessionModal />
+
+            {/* Passphrase prompt for encrypted API keys */}
+            <UnlockKeysModal />
+
             {/* Main content */}
             <div className={`flex-1 flex flex-col min-w-0 h-full relative transition-all duration-300 ${isSidebarOpen ? 'lg:pl-[280px]' : 'lg:pl-0'}`}>
                 {/* Header */}
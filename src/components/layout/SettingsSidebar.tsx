@@ -7,11 +7,18 @@ import {
     Key,
     Eye,
     EyeOff,
-    Sparkles
+    Sparkles,
+    Server,
+    HardDrive,
+    Shuffle
 } from 'lucide-react';
-import { useSettingsStore } from '@/stores/settingsStore';
-import { useApiKeyStore, type APIKeys } from '@/stores/apiKeyStore';
+import { useSettingsStore, type AIProvider } from '@/stores/settingsStore';
+import { useApiKeyStore, DEFAULT_OLLAMA_URL, type APIKeys } from '@/stores/apiKeyStore';
+import { useModelStore } from '@/stores/modelStore';
 import { Button } from '@/components/ui/Button';
+import { KeyEncryptionSettings } from './KeyEncryptionSettings';
+import { KeyStatusBadge } from './KeyStatusBadge';
+import { KEY_PROVIDERS } from '@/lib/keys/validation';
 import { useState } from 'react';
 
 interface SettingsSidebarProps {
@@ -25,29 +32,74 @@ export function SettingsSidebar({ isOpen, onClose }: SettingsSidebarProps) {
         systemPrompt,
         temperature,
         topP,
+        fallbackEnabled,
+        fallbackProvider,
+        fallbackModelId,
         setSystemPrompt,
         setTemperature,
         setTopP,
+        setFallback,
         resetToDefaults
     } = useSettingsStore();
+    const models = useModelStore(state => state.models);
 
-    const { keys, setKey } = useApiKeyStore();
+    const { keys, setKey, openAICompatible, setOpenAICompatible, ollama, setOllamaBaseUrl } = useApiKeyStore();
+    const keysLocked = useApiKeyStore(state => !!state.vault && !state.unlocked);
+    const checkKeys = useApiKeyStore(state => state.checkKeys);
+    const refreshModels = useModelStore(state => state.refreshAll);
 
     const [localPrompt, setLocalPrompt] = useState(systemPrompt);
     const [localTemp, setLocalTemp] = useState(temperature);
     const [localTopP, setLocalTopP] = useState(topP);
+    const [localFallbackEnabled, setLocalFallbackEnabled] = useState(fallbackEnabled);
+    const [localFallbackModel, setLocalFallbackModel] = useState(`${fallbackProvider}:${fallbackModelId}`);
     const [localKeys, setLocalKeys] = useState(keys);
+    const [shownKeys, setShownKeys] = useState(keys);
     const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
+    const [localEndpoint, setLocalEndpoint] = useState({
+        baseUrl: openAICompatible.baseUrl,
+        apiKey: openAICompatible.apiKey ?? '',
+        models: openAICompatible.models.join(', '),
+    });
+    const [shownEndpointKey, setShownEndpointKey] = useState(openAICompatible.apiKey);
+    const [localOllamaUrl, setLocalOllamaUrl] = useState(ollama.baseUrl);
+
+    // Keys change under the form when they are unlocked, locked or synced from another device
+    if (keys !== shownKeys) {
+        setShownKeys(keys);
+        setLocalKeys(keys);
+    }
+    if (openAICompatible.apiKey !== shownEndpointKey) {
+        setShownEndpointKey(openAICompatible.apiKey);
+        setLocalEndpoint(prev => ({ ...prev, apiKey: openAICompatible.apiKey ?? '' }));
+    }
 
     const handleSave = () => {
         if (activeTab === 'model') {
             setSystemPrompt(localPrompt);
             setTemperature(localTemp);
             setTopP(localTopP);
+            const [provider, ...modelParts] = localFallbackModel.split(':');
+            setFallback({
+                fallbackEnabled: localFallbackEnabled,
+                fallbackProvider: provider as AIProvider,
+                fallbackModelId: modelParts.join(':'),
+            });
         } else {
-            (Object.entries(localKeys) as [keyof APIKeys, string][]).forEach(([provider, key]) => {
-                setKey(provider, key || '');
+            if (!keysLocked) {
+                const changed = (Object.entries(localKeys) as [keyof APIKeys, string][])
+                    .filter(([provider, key]) => (key || '') !== (keys[provider] || ''));
+                changed.forEach(([provider, key]) => setKey(provider, key || ''));
+                checkKeys(changed.map(([provider]) => provider));
+            }
+            setOpenAICompatible({
+                baseUrl: localEndpoint.baseUrl.trim(),
+                ...(!keysLocked && { apiKey: localEndpoint.apiKey.trim() }),
+                models: [...new Set(localEndpoint.models.split(/[\s,]+/).filter(Boolean))],
             });
+            setOllamaBaseUrl(localOllamaUrl.trim());
+            // New keys or endpoints can change which models are available
+            refreshModels();
         }
         // Keep it open? Or close? Sidebar usually stays or closes on explicit 'X'. 
         // I'll keep it open for multi-edit, but provide feedback.
@@ -113,7 +165,12 @@ export function SettingsSidebar({ isOpen, onClose }: SettingsSidebarProps) {
                                     Behavior
                                 </button>
                                 <button
-                                    onClick={() => setActiveTab('keys')}
+                                    onClick={() => {
+                                        setActiveTab('keys');
+                                        // Check keys that have not been checked this session
+                                        const { keyStatus } = useApiKeyStore.getState();
+                                        checkKeys(KEY_PROVIDERS.filter(p => !keyStatus[p]));
+                                    }}
                                     className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs font-semibold rounded-xl transition-all ${activeTab === 'keys' ? 'bg-dark-700 text-white shadow-lg' : 'text-dark-400 hover:text-dark-200'}`}
                                 >
                                     <Key size={14} />
@@ -198,6 +255,42 @@ export function SettingsSidebar({ isOpen, onClose }: SettingsSidebarProps) {
                                             />
                                         </div>
                                     </div>
+
+                                    {/* Fallback model */}
+                                    <div className="space-y-3 pt-2">
+                                        <div className="flex items-center justify-between mb-1">
+                                            <div className="flex items-center gap-2">
+                                                <div className="w-1 h-4 bg-yellow-500 rounded-full" />
+                                                <label className="text-sm font-bold text-dark-100 uppercase tracking-wider">
+                                                    Fallback
+                                                </label>
+                                            </div>
+                                            <input
+                                                type="checkbox"
+                                                checked={localFallbackEnabled}
+                                                onChange={(e) => setLocalFallbackEnabled(e.target.checked)}
+                                                className="w-4 h-4 cursor-pointer accent-accent-primary"
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Shuffle size={14} className="text-dark-500 flex-shrink-0" />
+                                            <select
+                                                value={localFallbackModel}
+                                                onChange={(e) => setLocalFallbackModel(e.target.value)}
+                                                disabled={!localFallbackEnabled}
+                                                className="w-full px-3 py-2 bg-dark-800 border border-dark-700 rounded-xl text-sm text-dark-100 focus:outline-none focus:border-accent-primary disabled:opacity-50"
+                                            >
+                                                {models.map(m => (
+                                                    <option key={`${m.provider}:${m.id}`} value={`${m.provider}:${m.id}`}>
+                                                        {m.name} ({m.provider})
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <p className="text-[11px] text-dark-500 leading-relaxed px-1">
+                                            Answer with this model when the selected one is rate limited, unavailable or out of daily quota.
+                                        </p>
+                                    </div>
                                 </>
                             ) : (
                                 <div className="space-y-6">
@@ -207,6 +300,8 @@ export function SettingsSidebar({ isOpen, onClose }: SettingsSidebarProps) {
                                         </p>
                                     </div>
 
+                                    <KeyEncryptionSettings />
+
                                     {[
                                         { id: 'gemini', label: 'Gemini AI', placeholder: 'Key starting with AIza...' },
                                         { id: 'tavily', label: 'Tavily Search', placeholder: 'tvly-...' },
@@ -220,8 +315,9 @@ export function SettingsSidebar({ isOpen, onClose }: SettingsSidebarProps) {
                                                     type={showKeys[field.id] ? 'text' : 'password'}
                                                     value={localKeys[field.id as keyof APIKeys] || ''}
                                                     onChange={(e) => setLocalKeys(prev => ({ ...prev, [field.id]: e.target.value }))}
-                                                    placeholder={field.placeholder}
-                                                    className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none pr-10"
+                                                    placeholder={keysLocked ? 'Locked' : field.placeholder}
+                                                    disabled={keysLocked}
+                                                    className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none pr-10 disabled:opacity-50"
                                                 />
                                                 <button
                                                     onClick={() => toggleKeyVisibility(field.id)}
@@ -231,8 +327,73 @@ export function SettingsSidebar({ isOpen, onClose }: SettingsSidebarProps) {
                                                     {showKeys[field.id] ? <EyeOff size={16} /> : <Eye size={16} />}
                                                 </button>
                                             </div>
+                                            {!keysLocked && <KeyStatusBadge provider={field.id as keyof APIKeys} />}
                                         </div>
                                     ))}
+
+                                    {/* OpenAI-compatible endpoint */}
+                                    <div className="space-y-3 pt-2">
+                                        <div className="flex items-center gap-2 mb-1">
+                                            <Server size={14} className="text-teal-400" />
+                                            <label className="text-sm font-bold text-dark-100 uppercase tracking-wider">
+                                                Custom Endpoint
+                                            </label>
+                                        </div>
+                                        <p className="text-[11px] text-dark-500 leading-relaxed px-1">
+                                            Any server with an OpenAI-compatible chat completions API, such as LM Studio, vLLM or an internal gateway.
+                                        </p>
+                                        <input
+                                            type="url"
+                                            value={localEndpoint.baseUrl}
+                                            onChange={(e) => setLocalEndpoint(prev => ({ ...prev, baseUrl: e.target.value }))}
+                                            placeholder="http://localhost:1234/v1"
+                                            className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none"
+                                        />
+                                        <div className="relative group">
+                                            <input
+                                                type={showKeys['openai-compatible'] ? 'text' : 'password'}
+                                                value={localEndpoint.apiKey}
+                                                onChange={(e) => setLocalEndpoint(prev => ({ ...prev, apiKey: e.target.value }))}
+                                                placeholder={keysLocked ? 'Locked' : 'API key (optional)'}
+                                                disabled={keysLocked}
+                                                className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none pr-10 disabled:opacity-50"
+                                            />
+                                            <button
+                                                onClick={() => toggleKeyVisibility('openai-compatible')}
+                                                className="absolute right-3 top-1/2 -translate-y-1/2 text-dark-500 hover:text-dark-300 transition-colors"
+                                                type="button"
+                                            >
+                                                {showKeys['openai-compatible'] ? <EyeOff size={16} /> : <Eye size={16} />}
+                                            </button>
+                                        </div>
+                                        <input
+                                            type="text"
+                                            value={localEndpoint.models}
+                                            onChange={(e) => setLocalEndpoint(prev => ({ ...prev, models: e.target.value }))}
+                                            placeholder="Model names, comma separated"
+                                            className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none"
+                                        />
+                                    </div>
+
+                                    {/* Local Ollama server */}
+                                    <div className="space-y-3 pt-2">
+                                        <div className="flex items-center gap-2 mb-1">
+                                            <HardDrive size={14} className="text-orange-400" />
+                                            <label className="text-sm font-bold text-dark-100 uppercase tracking-wider">
+                                                Ollama
+                                            </label>
+                                        </div>
+                                        <p className="text-[11px] text-dark-500 leading-relaxed px-1">
+                                            Chats with local models never leave your machine. Installed models are listed automatically.
+                                        </p>
+                                        <input
+                                            type="url"
+                                            value={localOllamaUrl}
+                                            onChange={(e) => setLocalOllamaUrl(e.target.value)}
+                                            placeholder={DEFAULT_OLLAMA_URL}
+                                            className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none"
+                                        />
+                                    </div>
                                 </div>
                             )}
                         </div>
@@ -5,14 +5,18 @@ import {
     Trash2,
     PlusCircle,
     Search,
-    ChevronLeft
+    ChevronLeft,
+    Microscope
 } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/Button';
 import { ToolTogglePanel } from '@/components/tools/ToolTogglePanel';
 import { useChatStore } from '@/stores/chatStore';
-import { truncate } from '@/utils/helpers';
+import { useResearchStore } from '@/stores/researchStore';
+import { CANCELLED_REASON } from '@/lib/research/engine';
+import { formatCost, formatTokens, truncate } from '@/utils/helpers';
 import type { Conversation } from '@/types/chat';
+import type { ResearchSession } from '@/types/research';
 
 interface SidebarProps {
     isOpen: boolean;
@@ -29,12 +33,21 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
         setActiveConversation,
         createConversation,
         deleteConversation,
+        hasMoreConversations,
+        loadMoreConversations,
+        loading,
     } = useChatStore();
 
+    const { sessions, activeSessionId, openSession, deleteSession } = useResearchStore();
+
     const filteredConversations = conversations.filter(conv =>
         conv.title.toLowerCase().includes(searchQuery.toLowerCase())
     );
 
+    const filteredSessions = sessions.filter(session =>
+        session.topic.toLowerCase().includes(searchQuery.toLowerCase())
+    );
+
     const handleNewChat = () => {
         const id = createConversation();
         setActiveConversation(id);
@@ -140,6 +153,45 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                         </div>
                     ))}
 
+                    {hasMoreConversations && (
+                        <div className="px-4 pb-4">
+                            <button
+                                onClick={loadMoreConversations}
+                                disabled={loading}
+                                className="w-full py-2 text-xs font-medium text-dark-400 hover:text-white hover:bg-dark-800 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                {loading ? 'Loading...' : 'Load older conversations'}
+                            </button>
+                        </div>
+                    )}
+
+                    {filteredSessions.length > 0 && (
+                        <div className="mb-4">
+                            <h3 className="px-4 py-2 text-xs font-medium text-dark-500 uppercase tracking-wider">
+                                Research
+                            </h3>
+                            <div className="space-y-0.5 px-2">
+                                {filteredSessions.map((session) => (
+                                    <ResearchSessionItem
+                                        key={session.id}
+                                        session={session}
+                                        isRunning={session.id === activeSessionId}
+                                        isHovered={session.id === hoveredId}
+                                        onSelect={() => {
+                                            openSession(session.id);
+                                            onClose?.();
+                                        }}
+                                        onDelete={(e) => {
+                                            e.stopPropagation();
+                                            deleteSession(session.id);
+                                        }}
+                                        onHover={(hovered) => setHoveredId(hovered ? session.id : null)}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {filteredConversations.length === 0 && (
                         <div className="px-4 py-8 text-center text-dark-500 text-sm">
                             {searchQuery ? 'No matching conversations' : 'No conversations yet'}
@@ -198,8 +250,10 @@ function ConversationItem({
                 <p className="text-sm font-medium truncate">
                     {truncate(conversation.title, 25)}
                 </p>
-                <p className="text-xs text-dark-500">
+                <p className="text-xs text-dark-500 truncate">
                     {conversation.messageCount} messages
+                    {conversation.usage && ` · ${formatTokens(conversation.usage.totalTokens)} tokens`}
+                    {conversation.usage?.cost !== undefined && ` · ~${formatCost(conversation.usage.cost)}`}
                 </p>
             </div>
 
@@ -224,6 +278,71 @@ function ConversationItem({
     );
 }
 
+interface ResearchSessionItemProps {
+    session: ResearchSession;
+    isRunning: boolean;
+    isHovered: boolean;
+    onSelect: () => void;
+    onDelete: (e: React.MouseEvent) => void;
+    onHover: (hovered: boolean) => void;
+}
+
+function ResearchSessionItem({
+    session,
+    isRunning,
+    isHovered,
+    onSelect,
+    onDelete,
+    onHover,
+}: ResearchSessionItemProps) {
+    const statusLabel = session.status === 'complete'
+        ? `${session.sources.length} sources`
+        : isRunning
+            ? 'In progress'
+            : session.error === CANCELLED_REASON
+                ? 'Cancelled'
+                : session.status === 'failed' ? 'Failed' : 'Interrupted';
+
+    return (
+        <motion.div
+            layout
+            role="button"
+            tabIndex={0}
+            onClick={onSelect}
+            onMouseEnter={() => onHover(true)}
+            onMouseLeave={() => onHover(false)}
+            onKeyDown={(e) => e.key === 'Enter' && onSelect()}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition-all group cursor-pointer border text-dark-300 hover:bg-dark-800 hover:text-dark-200 border-transparent"
+        >
+            <Microscope size={16} className="flex-shrink-0 text-dark-500" />
+
+            <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                    {truncate(session.topic, 25)}
+                </p>
+                <p className={`text-xs ${session.status === 'failed' ? 'text-red-400/70' : 'text-dark-500'}`}>
+                    {session.queries.length} queries · {statusLabel}
+                </p>
+            </div>
+
+            <AnimatePresence>
+                {isHovered && !isRunning && (
+                    <motion.button
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.8 }}
+                        onClick={onDelete}
+                        className="p-1 text-dark-500 hover:text-red-400 rounded transition-colors"
+                        title="Delete research session"
+                    >
+                        <Trash2 size={14} />
+                    </motion.button>
+                )}
+            </AnimatePresence>
+        </motion.div>
+    );
+}
+
 // Helper function to group conversations by date
 function groupByDate(conversations: Conversation[]): Record<string, Conversation[]> {
     const groups: Record<string, Conversation[]> = {
@@ -0,0 +1,46 @@
+// Header badge showing whether chat changes have reached Firestore
+import { Cloud, CloudAlert, CloudOff, CloudUpload, RefreshCw, type LucideIcon } from 'lucide-react';
+import { Tooltip } from '@/components/ui/Tooltip';
+import { useSyncStore, type SyncStatus } from '@/stores/syncStore';
+import { processOutbox } from '@/lib/firebase/outbox';
+
+const STATUS_DISPLAY: Record<SyncStatus, { icon: LucideIcon; label: string; className: string }> = {
+    synced: { icon: Cloud, label: 'All changes saved', className: 'text-dark-500' },
+    pending: { icon: CloudUpload, label: 'Saving changes', className: 'text-dark-400' },
+    syncing: { icon: RefreshCw, label: 'Saving changes', className: 'text-accent-primary animate-spin' },
+    offline: { icon: CloudOff, label: 'Offline', className: 'text-yellow-400' },
+    error: { icon: CloudAlert, label: 'Could not save', className: 'text-red-400' },
+};
+
+export function SyncStatusIndicator() {
+    const { status, pendingCount, lastError, nextRetryAt } = useSyncStore();
+    const { icon: Icon, label, className } = STATUS_DISPLAY[status];
+
+    const details = [
+        label,
+        pendingCount > 0 && `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`,
+        status === 'error' && lastError,
+        nextRetryAt && `retrying at ${nextRetryAt.toLocaleTimeString()}`,
+        status === 'offline' && 'changes are kept and sent when you reconnect',
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <Tooltip content={details}>
+            <button
+                onClick={() => processOutbox()}
+                disabled={pendingCount === 0}
+                className="relative p-2 rounded-lg hover:bg-dark-700 transition-colors disabled:hover:bg-transparent disabled:cursor-default"
+                aria-label={label}
+            >
+                <Icon size={18} className={className} />
+                {pendingCount > 0 && (
+                    <span className="absolute top-1 right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-dark-600 text-[9px] leading-[14px] font-bold text-dark-100">
+                        {pendingCount}
+                    </span>
+                )}
+            </button>
+        </Tooltip>
+    );
+}
+
+export default SyncStatusIndicator;
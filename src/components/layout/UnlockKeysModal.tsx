@@ -0,0 +1,92 @@
+// Passphrase prompt shown while the encrypted API keys are locked
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { KeyRound, LockOpen } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useApiKeyStore } from '@/stores/apiKeyStore';
+
+export function UnlockKeysModal() {
+    const isLocked = useApiKeyStore(state => !!state.vault && !state.unlocked);
+    const unlock = useApiKeyStore(state => state.unlock);
+    const [dismissed, setDismissed] = useState(false);
+    const [wasLocked, setWasLocked] = useState(isLocked);
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    // Ask again each time the keys lock, even if the last prompt was skipped
+    if (isLocked !== wasLocked) {
+        setWasLocked(isLocked);
+        if (isLocked) setDismissed(false);
+    }
+
+    const handleUnlock = async () => {
+        setBusy(true);
+        const ok = await unlock(passphrase);
+        setBusy(false);
+        if (ok) {
+            setPassphrase('');
+            setError(null);
+        } else {
+            setError('Wrong passphrase');
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isLocked && !dismissed && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                    />
+
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="relative w-full max-w-sm bg-dark-900 border border-dark-700 rounded-3xl shadow-2xl p-6 space-y-4"
+                    >
+                        <div className="flex items-center gap-2">
+                            <div className="p-2 rounded-lg bg-accent-primary/10">
+                                <KeyRound size={20} className="text-accent-primary" />
+                            </div>
+                            <h2 className="text-lg font-bold text-white">Unlock API keys</h2>
+                        </div>
+                        <p className="text-sm text-dark-400">
+                            Your keys are encrypted. Enter your passphrase to use them in this session.
+                        </p>
+                        <input
+                            type="password"
+                            value={passphrase}
+                            onChange={(e) => setPassphrase(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+                            placeholder="Passphrase"
+                            autoFocus
+                            className="w-full px-4 py-2.5 bg-dark-800 border border-dark-700 rounded-2xl text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary focus:ring-4 focus:ring-accent-primary/10 transition-all shadow-inner outline-none"
+                        />
+                        {error && <p className="text-xs text-red-400">{error}</p>}
+                        <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setDismissed(true)}>
+                                Not now
+                            </Button>
+                            <Button
+                                size="sm"
+                                onClick={handleUnlock}
+                                isLoading={busy}
+                                disabled={!passphrase}
+                                leftIcon={<LockOpen size={14} />}
+                            >
+                                Unlock
+                            </Button>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+}
+
+export default UnlockKeysModal;
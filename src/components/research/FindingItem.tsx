@@ -0,0 +1,57 @@
+// A single research finding with its confidence and supporting sources
+import { AlertTriangle } from 'lucide-react';
+import { Tooltip } from '@/components/ui/Tooltip';
+import { isWeakFinding } from '@/lib/research/findings';
+import { extractDomain } from '@/utils/helpers';
+import type { ResearchFinding, ResearchSource } from '@/types/research';
+
+interface FindingItemProps {
+    finding: ResearchFinding;
+    sources: ResearchSource[];
+    compact?: boolean;
+}
+
+function confidenceClass(confidence: number): string {
+    if (confidence >= 0.75) return 'bg-green-500/10 text-green-400 border-green-500/20';
+    if (confidence >= 0.5) return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+    return 'bg-red-500/10 text-red-400 border-red-500/20';
+}
+
+export function FindingItem({ finding, sources, compact = false }: FindingItemProps) {
+    const isWeak = isWeakFinding(finding, sources);
+
+    return (
+        <div className={`flex flex-col gap-1.5 ${compact ? 'text-xs' : 'text-sm'}`}>
+            <div className="flex items-start gap-2">
+                <p className="flex-1 text-dark-200 leading-relaxed">{finding.content}</p>
+                <span className={`flex-shrink-0 px-1.5 py-0.5 text-[10px] font-mono rounded border ${confidenceClass(finding.confidence)}`}>
+                    {Math.round(finding.confidence * 100)}%
+                </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1.5">
+                {isWeak && (
+                    <Tooltip content={finding.sources.length === 0 ? 'No supporting source' : 'Rests on a single low-scoring source'}>
+                        <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium text-yellow-400 bg-yellow-500/10 rounded">
+                            <AlertTriangle size={10} />
+                            Weakly supported
+                        </span>
+                    </Tooltip>
+                )}
+                {finding.sources.map(url => (
+                    <a
+                        key={url}
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-1.5 py-0.5 text-[10px] text-dark-400 bg-dark-900/60 rounded hover:text-white hover:bg-dark-700 transition-colors"
+                    >
+                        {extractDomain(url)}
+                    </a>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default FindingItem;
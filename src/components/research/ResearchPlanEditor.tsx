@@ -0,0 +1,154 @@
+// Editor for reviewing a research plan before searching starts
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Trash2, Check, X, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { extractDomain, generateId } from '@/utils/helpers';
+import type { ResearchPlan } from '@/types/research';
+
+interface ResearchPlanEditorProps {
+    plan: ResearchPlan;
+    onApprove: (plan: ResearchPlan) => void;
+    onCancel: () => void;
+}
+
+interface QueryRow {
+    id: string;
+    text: string;
+}
+
+// Rows keep a stable id so removing one does not animate out its neighbour
+function toQueryRow(text: string): QueryRow {
+    return { id: generateId(), text };
+}
+
+function parseDomains(text: string): string[] {
+    const domains = text
+        .split(/[\s,]+/)
+        .map(d => extractDomain(d.trim()).toLowerCase())
+        .filter(Boolean);
+    return [...new Set(domains)];
+}
+
+export function ResearchPlanEditor({ plan, onApprove, onCancel }: ResearchPlanEditorProps) {
+    const [queries, setQueries] = useState(() => plan.queries.map(toQueryRow));
+    const [includeText, setIncludeText] = useState(plan.includeDomains.join(', '));
+    const [excludeText, setExcludeText] = useState(plan.excludeDomains.join(', '));
+
+    const validQueries = queries.map(q => q.text.trim()).filter(Boolean);
+
+    const updateQuery = (id: string, text: string) => {
+        setQueries(prev => prev.map(q => q.id === id ? { ...q, text } : q));
+    };
+
+    const removeQuery = (id: string) => {
+        setQueries(prev => prev.filter(q => q.id !== id));
+    };
+
+    const handleApprove = () => {
+        onApprove({
+            queries: validQueries,
+            includeDomains: parseDomains(includeText),
+            excludeDomains: parseDomains(excludeText),
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-xs text-dark-400">
+                Review the planned searches before they run. Reword, remove or add queries and restrict which sites are searched.
+            </p>
+
+            {/* Queries */}
+            <div className="space-y-2">
+                <AnimatePresence initial={false}>
+                    {queries.map((q, index) => (
+                        <motion.div
+                            key={q.id}
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            exit={{ opacity: 0, height: 0 }}
+                            className="flex items-center gap-2"
+                        >
+                            <span className="w-4 text-xs font-mono text-dark-500 text-right">{index + 1}</span>
+                            <input
+                                type="text"
+                                value={q.text}
+                                onChange={(e) => updateQuery(q.id, e.target.value)}
+                                placeholder="Search query..."
+                                className="flex-1 px-3 py-1.5 bg-dark-900 border border-dark-700 rounded-lg text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary"
+                            />
+                            <button
+                                onClick={() => removeQuery(q.id)}
+                                className="p-1.5 text-dark-500 hover:text-red-400 rounded transition-colors"
+                                title="Remove query"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </motion.div>
+                    ))}
+                </AnimatePresence>
+
+                <button
+                    onClick={() => setQueries(prev => [...prev, toQueryRow('')])}
+                    className="flex items-center gap-1 ml-6 text-xs font-semibold text-dark-400 hover:text-accent-primary transition-colors"
+                >
+                    <Plus size={12} />
+                    Add query
+                </button>
+            </div>
+
+            {/* Domain filters */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="space-y-1">
+                    <span className="flex items-center gap-1 text-[10px] font-bold text-dark-500 uppercase tracking-widest">
+                        <ShieldCheck size={12} className="text-green-400" />
+                        Only these domains
+                    </span>
+                    <input
+                        type="text"
+                        value={includeText}
+                        onChange={(e) => setIncludeText(e.target.value)}
+                        placeholder="nature.com, arxiv.org"
+                        className="w-full px-3 py-1.5 bg-dark-900 border border-dark-700 rounded-lg text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary"
+                    />
+                </label>
+                <label className="space-y-1">
+                    <span className="flex items-center gap-1 text-[10px] font-bold text-dark-500 uppercase tracking-widest">
+                        <ShieldOff size={12} className="text-red-400" />
+                        Skip these domains
+                    </span>
+                    <input
+                        type="text"
+                        value={excludeText}
+                        onChange={(e) => setExcludeText(e.target.value)}
+                        placeholder="pinterest.com, quora.com"
+                        className="w-full px-3 py-1.5 bg-dark-900 border border-dark-700 rounded-lg text-sm text-dark-100 placeholder-dark-600 focus:outline-none focus:border-accent-primary"
+                    />
+                </label>
+            </div>
+
+            {/* Actions */}
+            <div className="flex justify-end gap-2">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onCancel}
+                    leftIcon={<X size={14} />}
+                >
+                    Cancel
+                </Button>
+                <Button
+                    size="sm"
+                    onClick={handleApprove}
+                    disabled={validQueries.length === 0}
+                    leftIcon={<Check size={14} />}
+                >
+                    Start Searching
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+export default ResearchPlanEditor;
@@ -0,0 +1,283 @@
+// Read-only view of a saved deep research session
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+    X,
+    Microscope,
+    FileText,
+    Search,
+    Globe,
+    Lightbulb,
+    MessageSquare,
+    ExternalLink,
+    Play,
+    Square,
+    Download,
+    type LucideIcon
+} from 'lucide-react';
+import { useState } from 'react';
+import { MarkdownRenderer } from '@/components/chat/MarkdownRenderer';
+import { Button } from '@/components/ui/Button';
+import { FindingItem } from './FindingItem';
+import { useResearchStore } from '@/stores/researchStore';
+import { useChatStore } from '@/stores/chatStore';
+import type { ResearchExportFormat } from '@/lib/research/export';
+import { extractDomain, formatDate, formatDuration } from '@/utils/helpers';
+
+type SessionTab = 'report' | 'queries' | 'sources' | 'findings';
+
+const EXPORT_OPTIONS: { format: ResearchExportFormat; label: string; title: string }[] = [
+    { format: 'markdown', label: 'MD', title: 'Markdown report with bibliography' },
+    { format: 'html', label: 'HTML', title: 'Standalone HTML page' },
+    { format: 'json', label: 'JSON', title: 'Full session: queries, sources, findings and timings' },
+];
+
+export function ResearchSessionModal() {
+    const [activeTab, setActiveTab] = useState<SessionTab>('report');
+    const [exportError, setExportError] = useState<string | null>(null);
+    const session = useResearchStore(state =>
+        state.sessions.find(s => s.id === state.viewingSessionId)
+    );
+    const openSession = useResearchStore(state => state.openSession);
+    const resumeResearch = useResearchStore(state => state.resumeResearch);
+    const cancelResearch = useResearchStore(state => state.cancelResearch);
+    const isRunning = useResearchStore(state =>
+        !!state.viewingSessionId && state.activeSessionId === state.viewingSessionId
+    );
+    const isResumable = useResearchStore(state =>
+        !!state.viewingSessionId && state.isResumable(state.viewingSessionId)
+    );
+    const conversationExists = useChatStore(state =>
+        state.conversations.some(c => c.id === session?.conversationId)
+    );
+    const setActiveConversation = useChatStore(state => state.setActiveConversation);
+
+    const onClose = () => {
+        openSession(null);
+        setActiveTab('report');
+        setExportError(null);
+    };
+
+    const handleGoToConversation = () => {
+        if (!session) return;
+        setActiveConversation(session.conversationId);
+        onClose();
+    };
+
+    // The exporter bundles the server renderer, so it is only loaded when used
+    const handleExport = async (format: ResearchExportFormat) => {
+        if (!session) return;
+        setExportError(null);
+        try {
+            const { downloadResearchExport } = await import('@/lib/research/export');
+            await downloadResearchExport(session, format);
+        } catch (error) {
+            console.error('Error exporting research session:', error);
+            setExportError(error instanceof Error ? error.message : 'Export failed');
+        }
+    };
+
+    const handleResume = () => {
+        if (!session) return;
+        resumeResearch(session.id);
+        if (conversationExists) {
+            setActiveConversation(session.conversationId);
+        }
+        onClose();
+    };
+
+    const tabs: { id: SessionTab; label: string; icon: LucideIcon; count?: number }[] = [
+        { id: 'report', label: 'Report', icon: FileText },
+        { id: 'queries', label: 'Queries', icon: Search, count: session?.queries.length },
+        { id: 'sources', label: 'Sources', icon: Globe, count: session?.sources.length },
+        { id: 'findings', label: 'Findings', icon: Lightbulb, count: session?.findings.length },
+    ];
+
+    return (
+        <AnimatePresence>
+            {session && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                    />
+
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="relative w-full max-w-3xl bg-dark-900 border border-dark-700 rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]"
+                    >
+                        {/* Header */}
+                        <div className="px-6 pt-6 pb-4 border-b border-dark-700 bg-dark-800/50">
+                            <div className="flex items-start justify-between gap-4 mb-4">
+                                <div className="flex items-start gap-2 min-w-0">
+                                    <div className="p-2 rounded-lg bg-accent-primary/10 flex-shrink-0">
+                                        <Microscope size={20} className="text-accent-primary" />
+                                    </div>
+                                    <div className="min-w-0">
+                                        <h2 className="text-xl font-bold text-white truncate">{session.topic}</h2>
+                                        <p className="text-xs text-dark-500">
+                                            {formatDate(session.createdAt)}
+                                            {session.completedAt && ` · ${formatDuration(session.completedAt.getTime() - session.createdAt.getTime())}`}
+                                            {` · ${session.status}`}
+                                        </p>
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-dark-400 hover:text-white hover:bg-dark-700 rounded-xl transition-colors"
+                                >
+                                    <X size={20} />
+                                </button>
+                            </div>
+
+                            {/* Tabs */}
+                            <div className="flex p-1 bg-dark-800 rounded-xl border border-dark-700">
+                                {tabs.map(({ id, label, icon: Icon, count }) => (
+                                    <button
+                                        key={id}
+                                        onClick={() => setActiveTab(id)}
+                                        className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg transition-all ${activeTab === id ? 'bg-dark-700 text-white shadow-sm' : 'text-dark-400 hover:text-dark-200'}`}
+                                    >
+                                        <Icon size={16} />
+                                        <span className="hidden sm:inline">{label}</span>
+                                        {count !== undefined && (
+                                            <span className="text-xs text-dark-500">{count}</span>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Body */}
+                        <div className="flex-1 p-6 overflow-y-auto">
+                            {activeTab === 'report' && (
+                                session.finalReport ? (
+                                    <MarkdownRenderer content={session.finalReport} />
+                                ) : (
+                                    <p className="text-sm text-dark-500">
+                                        {session.error
+                                            ? `This run stopped: ${session.error}`
+                                            : isRunning ? 'The report will appear here when the run finishes.' : 'No report was produced for this run.'}
+                                    </p>
+                                )
+                            )}
+
+                            {activeTab === 'queries' && (
+                                <ol className="space-y-2">
+                                    {session.queries.map((q, index) => {
+                                        const hits = session.sources.filter(s => (s.matchedQueries ?? [s.query]).includes(q)).length;
+                                        return (
+                                            <li key={index} className="flex items-center gap-3 px-3 py-2 bg-dark-800 rounded-lg text-sm">
+                                                <span className="text-xs font-mono text-dark-500">{index + 1}</span>
+                                                <span className="flex-1 text-dark-200">{q}</span>
+                                                <span className="text-xs text-dark-500">{hits} sources</span>
+                                            </li>
+                                        );
+                                    })}
+                                </ol>
+                            )}
+
+                            {activeTab === 'sources' && (
+                                <div className="space-y-2">
+                                    {session.sources.map((source, index) => (
+                                        <a
+                                            key={source.url}
+                                            href={source.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="block px-3 py-2 bg-dark-800 hover:bg-dark-700 rounded-lg transition-colors group"
+                                        >
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-xs font-mono text-dark-500">{index + 1}</span>
+                                                <span className="flex-1 text-sm font-medium text-dark-100 truncate">{source.title}</span>
+                                                <ExternalLink size={12} className="text-dark-500 group-hover:text-dark-300" />
+                                            </div>
+                                            <p className="text-xs text-dark-500 mt-0.5">
+                                                {extractDomain(source.url)} · iteration {source.iteration} · score {source.score.toFixed(2)}
+                                                {source.credibility !== undefined && ` · credibility ${source.credibility.toFixed(2)}`}
+                                                {(source.matchedQueries?.length ?? 1) > 1 && ` · found by ${source.matchedQueries!.length} queries`}
+                                                {source.publishedDate && ` · ${source.publishedDate}`}
+                                            </p>
+                                            <p className="text-xs text-dark-400 mt-1 line-clamp-2">{source.content}</p>
+                                        </a>
+                                    ))}
+                                </div>
+                            )}
+
+                            {activeTab === 'findings' && (
+                                <div className="space-y-3">
+                                    {session.findings.map((finding, index) => (
+                                        <div key={index} className="p-3 bg-dark-800 rounded-lg">
+                                            <span className="text-[10px] font-bold text-dark-500 uppercase tracking-widest">
+                                                Iteration {finding.iteration}
+                                            </span>
+                                            <FindingItem finding={finding} sources={session.sources} />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Footer */}
+                        <div className="px-6 py-4 border-t border-dark-700 bg-dark-800/50 flex justify-end gap-2">
+                            {session.finalReport && (
+                                <div className="flex items-center gap-1 mr-auto">
+                                    <Download size={14} className="text-dark-500" />
+                                    {EXPORT_OPTIONS.map(({ format, label, title }) => (
+                                        <button
+                                            key={format}
+                                            onClick={() => handleExport(format)}
+                                            className="px-2 py-1 text-xs font-semibold text-dark-400 hover:text-white hover:bg-dark-700 rounded-lg transition-colors"
+                                            title={title}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                    {exportError && (
+                                        <span className="ml-2 max-w-xs truncate text-xs text-red-400" title={exportError}>
+                                            Export failed: {exportError}
+                                        </span>
+                                    )}
+                                </div>
+                            )}
+                            {isRunning && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => cancelResearch(session.id)}
+                                    leftIcon={<Square size={12} className="fill-current" />}
+                                >
+                                    Stop
+                                </Button>
+                            )}
+                            {isResumable && (
+                                <Button
+                                    size="sm"
+                                    onClick={handleResume}
+                                    leftIcon={<Play size={14} />}
+                                >
+                                    Resume from {session.checkpoint?.phase}
+                                </Button>
+                            )}
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={handleGoToConversation}
+                                disabled={!conversationExists}
+                                leftIcon={<MessageSquare size={14} />}
+                            >
+                                Open Conversation
+                            </Button>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+}
+
+export default ResearchSessionModal;
@@ -0,0 +1,92 @@
+// Header control for compare mode and the models it runs
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Columns3, Check } from 'lucide-react';
+import { Toggle } from './Toggle';
+import { useCompareStore, MIN_COMPARE_MODELS, MAX_COMPARE_MODELS } from '@/stores/compareStore';
+import { useModelStore } from '@/stores/modelStore';
+
+export function CompareSelector() {
+    const [isOpen, setIsOpen] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    const enabled = useCompareStore(state => state.enabled);
+    const selected = useCompareStore(state => state.models);
+    const setEnabled = useCompareStore(state => state.setEnabled);
+    const toggleModel = useCompareStore(state => state.toggleModel);
+    const models = useModelStore(state => state.models);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const isActive = enabled && selected.length >= MIN_COMPARE_MODELS;
+
+    return (
+        <div className="relative" ref={dropdownRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg border transition-colors ${isActive
+                    ? 'bg-accent-primary/10 border-accent-primary/30 text-accent-primary'
+                    : 'bg-dark-800 border-dark-700 text-dark-400 hover:text-white hover:bg-dark-700'
+                    }`}
+                title="Compare models"
+            >
+                <Columns3 size={16} />
+                {isActive && <span className="text-xs font-semibold">{selected.length}</span>}
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 8, scale: 0.95 }}
+                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                        exit={{ opacity: 0, y: 8, scale: 0.95 }}
+                        transition={{ duration: 0.15 }}
+                        className="absolute right-0 mt-2 w-72 bg-dark-800 border border-dark-700 rounded-2xl shadow-2xl z-50 overflow-hidden glass"
+                    >
+                        <div className="flex items-center justify-between p-3 border-b border-dark-700">
+                            <div className="flex flex-col">
+                                <span className="text-sm font-medium text-dark-100">Compare mode</span>
+                                <span className="text-[10px] text-dark-500">
+                                    Send each prompt to {MIN_COMPARE_MODELS}–{MAX_COMPARE_MODELS} models at once
+                                </span>
+                            </div>
+                            <Toggle checked={enabled} onChange={setEnabled} size="sm" />
+                        </div>
+
+                        <div className="max-h-64 overflow-y-auto p-1">
+                            {models.map(model => {
+                                const isSelected = selected.some(m => m.provider === model.provider && m.modelId === model.id);
+                                const isFull = !isSelected && selected.length >= MAX_COMPARE_MODELS;
+
+                                return (
+                                    <button
+                                        key={`${model.provider}:${model.id}`}
+                                        onClick={() => toggleModel({ provider: model.provider, modelId: model.id })}
+                                        disabled={isFull}
+                                        className={`w-full flex items-center gap-2 p-2 rounded-lg text-left transition-colors disabled:opacity-40 ${isSelected ? 'bg-blue-500/10' : 'hover:bg-dark-700'}`}
+                                    >
+                                        <span className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center ${isSelected ? 'bg-accent-primary border-accent-primary' : 'border-dark-600'}`}>
+                                            {isSelected && <Check size={10} className="text-white" />}
+                                        </span>
+                                        <span className="flex-1 text-sm text-dark-100 truncate">{model.name}</span>
+                                        <span className="text-[10px] text-dark-500">{model.provider}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default CompareSelector;
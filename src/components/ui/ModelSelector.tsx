@@ -1,14 +1,92 @@
-import { useSettingsStore, AVAILABLE_MODELS, type AIProvider } from '@/stores/settingsStore';
-import { ChevronDown, Sparkles, Zap, Brain, Cpu } from 'lucide-react';
-import { useState, useRef, useEffect } from 'react';
+import { useSettingsStore, type AIProvider } from '@/stores/settingsStore';
+import { useModelStore } from '@/stores/modelStore';
+import { ChevronDown, Sparkles, Zap, Brain, Cpu, Server, HardDrive, RefreshCw, Wrench, Eye, type LucideIcon } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { AIModel } from '@/types/models';
+
+const PROVIDER_TABS: { id: AIProvider; label: string; icon: LucideIcon }[] = [
+    { id: 'gemini', label: 'Gemini', icon: Sparkles },
+    { id: 'groq', label: 'Groq', icon: Cpu },
+    { id: 'openai-compatible', label: 'Custom', icon: Server },
+    { id: 'ollama', label: 'Ollama', icon: HardDrive },
+];
+
+function formatTokenCount(tokens: number): string {
+    if (tokens >= 1000000) return `${Math.round(tokens / 100000) / 10}M`;
+    return `${Math.round(tokens / 1024)}K`;
+}
+
+function formatPricing(pricing: NonNullable<AIModel['capabilities']['pricing']>): string {
+    if (pricing.input === 0 && pricing.output === 0) return 'Free';
+    return `$${pricing.input} / $${pricing.output}`;
+}
+
+function CapabilityBadges({ model }: { model: AIModel }) {
+    const { tools, vision, contextWindow, maxOutputTokens, pricing } = model.capabilities;
+    const badgeClass = 'flex items-center gap-0.5 px-1.5 py-0.5 text-[9px] font-semibold rounded bg-dark-900/80 text-dark-400';
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 mt-1">
+            {tools && (
+                <span className={badgeClass} title="Supports tool calling">
+                    <Wrench size={9} /> Tools
+                </span>
+            )}
+            {vision && (
+                <span className={badgeClass} title="Accepts images">
+                    <Eye size={9} /> Vision
+                </span>
+            )}
+            {!!contextWindow && (
+                <span
+                    className={badgeClass}
+                    title={`Context window${maxOutputTokens ? `, up to ${maxOutputTokens.toLocaleString()} output tokens` : ''}`}
+                >
+                    {formatTokenCount(contextWindow)} ctx
+                </span>
+            )}
+            {pricing && (
+                <span className={badgeClass} title="USD per million input / output tokens">
+                    {formatPricing(pricing)}
+                </span>
+            )}
+        </div>
+    );
+}
 
 export function ModelSelector() {
     const { provider, modelId, setProvider, setModelId } = useSettingsStore();
     const [isOpen, setIsOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
-    const currentModel = AVAILABLE_MODELS.find(m => m.id === modelId);
+    const models = useModelStore(state => state.models);
+    const refreshProvider = useModelStore(state => state.refreshProvider);
+    const isRefreshing = useModelStore(state => state.refreshing.includes(provider));
+    const refreshError = useModelStore(state => state.errors[provider]);
+    const lastRefreshed = useModelStore(state => state.lastRefreshed[provider]);
+
+    const currentModel = models.find(m => m.id === modelId && m.provider === provider);
+    const providerModels = models.filter(m => m.provider === provider);
+
+    const handleRefresh = useCallback(async () => {
+        await refreshProvider(provider);
+
+        // Local models come and go, so move off one that was removed
+        const { getModelsForProvider } = useModelStore.getState();
+        const available = getModelsForProvider(provider);
+        const { provider: current, modelId: currentId } = useSettingsStore.getState();
+        if (current === provider && available.length > 0 && !available.some(m => m.id === currentId)) {
+            setModelId(available[0].id, provider);
+        }
+    }, [provider, refreshProvider, setModelId]);
+
+    // Discover installed models whenever the Ollama list is shown
+    useEffect(() => {
+        if (isOpen && provider === 'ollama') {
+            handleRefresh();
+        }
+    }, [isOpen, provider, handleRefresh]);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -22,6 +100,8 @@ export function ModelSelector() {
 
     const getIcon = (p: AIProvider) => {
         if (p === 'gemini') return <Sparkles size={16} className="text-blue-400" />;
+        if (p === 'openai-compatible') return <Server size={16} className="text-teal-400" />;
+        if (p === 'ollama') return <HardDrive size={16} className="text-orange-400" />;
         return <Cpu size={16} className="text-purple-400" />;
     };
 
@@ -58,33 +138,50 @@ export function ModelSelector() {
                     >
                         <div className="p-3 border-b border-dark-700">
                             <div className="flex p-1 bg-dark-900 rounded-xl border border-dark-700">
-                                <button
-                                    onClick={() => setProvider('gemini')}
-                                    className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-semibold rounded-md transition-all ${provider === 'gemini'
-                                        ? 'bg-dark-700 text-white shadow-sm'
-                                        : 'text-dark-400 hover:text-dark-200'
-                                        }`}
-                                >
-                                    <Sparkles size={12} /> Gemini
-                                </button>
-                                <button
-                                    onClick={() => setProvider('groq')}
-                                    className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-semibold rounded-md transition-all ${provider === 'groq'
-                                        ? 'bg-dark-700 text-white shadow-sm'
-                                        : 'text-dark-400 hover:text-dark-200'
-                                        }`}
-                                >
-                                    <Cpu size={12} /> Groq
-                                </button>
+                                {PROVIDER_TABS.map(({ id, label, icon: Icon }) => (
+                                    <button
+                                        key={id}
+                                        onClick={() => setProvider(id)}
+                                        className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-semibold rounded-md transition-all ${provider === id
+                                            ? 'bg-dark-700 text-white shadow-sm'
+                                            : 'text-dark-400 hover:text-dark-200'
+                                            }`}
+                                    >
+                                        <Icon size={12} /> {label}
+                                    </button>
+                                ))}
                             </div>
                         </div>
 
                         <div className="max-h-64 overflow-y-auto p-1">
-                            {AVAILABLE_MODELS.filter(m => m.provider === provider).map((model) => (
+                            <div className="flex items-center justify-between px-2 py-1.5 text-[10px] text-dark-500">
+                                <span className="truncate">
+                                    {refreshError ?? `${providerModels.length} models${lastRefreshed ? ` · updated ${new Date(lastRefreshed).toLocaleDateString()}` : ''}`}
+                                </span>
+                                <button
+                                    onClick={handleRefresh}
+                                    disabled={isRefreshing}
+                                    className="p-1 text-dark-400 hover:text-white rounded transition-colors disabled:opacity-50"
+                                    title="Refresh model list"
+                                >
+                                    <RefreshCw size={12} className={isRefreshing ? 'animate-spin' : ''} />
+                                </button>
+                            </div>
+                            {providerModels.length === 0 && provider === 'openai-compatible' && (
+                                <p className="p-3 text-xs text-dark-400">
+                                    No models yet. Add your endpoint and its model names under Settings → API Keys.
+                                </p>
+                            )}
+                            {providerModels.length === 0 && provider === 'ollama' && !isRefreshing && (
+                                <p className="p-3 text-xs text-dark-400">
+                                    No local models found. Start Ollama and pull a model, e.g. <code>ollama pull llama3.1</code>.
+                                </p>
+                            )}
+                            {providerModels.map((model) => (
                                 <button
                                     key={model.id}
                                     onClick={() => {
-                                        setModelId(model.id);
+                                        setModelId(model.id, model.provider);
                                         setIsOpen(false);
                                     }}
                                     className={`w-full flex flex-col items-start p-2 rounded-lg transition-colors mb-1 last:mb-0 ${modelId === model.id
@@ -101,6 +198,7 @@ export function ModelSelector() {
                                     <span className="text-[10px] text-dark-400 text-left line-clamp-1">
                                         {model.description}
                                     </span>
+                                    <CapabilityBadges model={model} />
                                 </button>
                             ))}
                         </div>
@@ -0,0 +1,175 @@
+// Firestore layout for conversations: a header document per conversation
+// with its messages stored one per document in a `messages` subcollection
+import {
+    collection,
+    deleteField,
+    doc,
+    getDocs,
+    limit,
+    onSnapshot,
+    orderBy,
+    query,
+    writeBatch,
+    type DocumentData,
+    type QuerySnapshot,
+    type Unsubscribe,
+    type WriteBatch
+} from 'firebase/firestore';
+import { db } from './config';
+import { useUsageStore } from '@/stores/usageStore';
+import type { Conversation, Message } from '@/types/chat';
+import { parseDate, sanitizeForFirestore } from '@/utils/helpers';
+
+export const CONVERSATION_PAGE_SIZE = 30;
+
+// Firestore rejects batches with more operations than this
+const MAX_BATCH_WRITES = 500;
+
+// Conversations whose embedded messages are being moved in this tab
+const migrating = new Set<string>();
+
+export function conversationsPath(userId: string): string {
+    return `users/${userId}/conversations`;
+}
+
+export function messagesPath(userId: string, conversationId: string): string {
+    return `users/${userId}/conversations/${conversationId}/messages`;
+}
+
+/**
+ * The header document for a conversation, without its messages
+ */
+export function toConversationDoc(conversation: Conversation) {
+    return sanitizeForFirestore({
+        id: conversation.id,
+        userId: conversation.userId,
+        title: conversation.title,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        messageCount: conversation.messageCount,
+        toolsUsed: conversation.toolsUsed,
+        isDeepResearch: conversation.isDeepResearch,
+        usage: conversation.usage,
+    });
+}
+
+export function toMessageDoc(message: Message) {
+    return sanitizeForFirestore(message);
+}
+
+// Each document a listener receives from the server is billed as a read
+function countSnapshotReads(snapshot: QuerySnapshot) {
+    if (snapshot.metadata.fromCache) return;
+    const changes = snapshot.docChanges().length;
+    if (changes > 0) useUsageStore.getState().incrementFirestoreRead(changes);
+}
+
+// Commit a batch, counting each of its operations as a write
+async function commitCountedBatch(batch: WriteBatch, operations: number): Promise<void> {
+    useUsageStore.getState().incrementFirestoreWrite(operations);
+    await batch.commit();
+}
+
+function parseMessage(data: DocumentData): Message {
+    return {
+        ...data,
+        timestamp: parseDate(data.timestamp),
+    } as Message;
+}
+
+/**
+ * Move messages still embedded in a conversation document into its subcollection
+ */
+async function migrateEmbeddedMessages(userId: string, conversationId: string, messages: Message[]): Promise<void> {
+    for (let start = 0; start < messages.length; start += MAX_BATCH_WRITES - 1) {
+        const batch = writeBatch(db);
+        const chunk = messages.slice(start, start + MAX_BATCH_WRITES - 1);
+        for (const message of chunk) {
+            batch.set(doc(db, messagesPath(userId, conversationId), message.id), toMessageDoc(message));
+        }
+
+        // Drop the embedded copy only once the last chunk is written
+        const isLast = start + chunk.length >= messages.length;
+        if (isLast) {
+            batch.update(doc(db, conversationsPath(userId), conversationId), {
+                messages: deleteField(),
+                messageCount: messages.length,
+            });
+        }
+        await commitCountedBatch(batch, chunk.length + (isLast ? 1 : 0));
+    }
+}
+
+/**
+ * Listen to the newest `count` conversation headers. Messages are left empty
+ * except for documents written before the subcollection layout, which are
+ * migrated the first time they are seen.
+ */
+export function subscribeToConversations(
+    userId: string,
+    count: number,
+    onChange: (conversations: Conversation[], hasMore: boolean) => void
+): Unsubscribe {
+    const q = query(collection(db, conversationsPath(userId)), orderBy('updatedAt', 'desc'), limit(count));
+
+    return onSnapshot(q, (snapshot) => {
+        countSnapshotReads(snapshot);
+        const conversations = snapshot.docs.map((snap) => {
+            const data = snap.data();
+            const embedded: Message[] = Array.isArray(data.messages) ? data.messages.map(parseMessage) : [];
+
+            if (Array.isArray(data.messages) && !migrating.has(snap.id)) {
+                migrating.add(snap.id);
+                migrateEmbeddedMessages(userId, snap.id, embedded)
+                    .catch((error) => console.error(`Error migrating messages of conversation ${snap.id}:`, error))
+                    .finally(() => migrating.delete(snap.id));
+            }
+
+            return {
+                ...data,
+                id: snap.id,
+                createdAt: parseDate(data.createdAt),
+                updatedAt: parseDate(data.updatedAt),
+                messageCount: data.messageCount ?? embedded.length,
+                messages: embedded,
+            } as Conversation;
+        });
+
+        onChange(conversations, snapshot.size >= count);
+    }, (error) => console.error('Error listening to conversations:', error));
+}
+
+/**
+ * Listen to all messages of a conversation in order
+ */
+export function subscribeToMessages(
+    userId: string,
+    conversationId: string,
+    onChange: (messages: Message[]) => void
+): Unsubscribe {
+    const q = query(collection(db, messagesPath(userId, conversationId)), orderBy('timestamp', 'asc'));
+
+    return onSnapshot(q, (snapshot) => {
+        countSnapshotReads(snapshot);
+        onChange(snapshot.docs.map(snap => parseMessage({ ...snap.data(), id: snap.id })));
+    }, (error) => console.error('Error listening to messages:', error));
+}
+
+/**
+ * Delete a conversation and every message under it
+ */
+export async function deleteConversationDocs(userId: string, conversationId: string): Promise<void> {
+    const snapshot = await getDocs(collection(db, messagesPath(userId, conversationId)));
+    useUsageStore.getState().incrementFirestoreRead(Math.max(1, snapshot.size));
+
+    for (let start = 0; start < snapshot.docs.length; start += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        const chunk = snapshot.docs.slice(start, start + MAX_BATCH_WRITES);
+        chunk.forEach(snap => batch.delete(snap.ref));
+        await commitCountedBatch(batch, chunk.length);
+    }
+
+    const batch = writeBatch(db);
+    batch.delete(doc(db, conversationsPath(userId), conversationId));
+    await commitCountedBatch(batch, 1);
+}
@@ -0,0 +1,239 @@
+// Durable queue of chat mutations, so writes survive reloads and flaky connections
+import { doc, runTransaction, type DocumentData } from 'firebase/firestore';
+import { db } from './config';
+import { deleteConversationDocs } from './conversations';
+import { useAuthStore } from '@/stores/authStore';
+import { useSyncStore } from '@/stores/syncStore';
+import { useUsageStore } from '@/stores/usageStore';
+import { openDatabase, requestToPromise, transactionDone } from '@/utils/indexedDb';
+
+export type OutboxMutation =
+    // `version` guards message writes: a newer version on the server is never overwritten
+    | { type: 'set'; path: string; data: DocumentData; merge?: boolean; version?: number }
+    | { type: 'delete'; path: string }
+    // Needs a query for the messages, so it cannot run inside a transaction
+    | { type: 'deleteConversation'; conversationId: string };
+
+interface OutboxEntry {
+    id?: number;
+    userId: string;
+    mutations: OutboxMutation[];
+    createdAt: number;
+    attempts: number;
+}
+
+const DB_NAME = 'ai-assistant-outbox';
+const STORE_NAME = 'mutations';
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+// Errors a retry cannot fix; the entry is dropped so it does not block the queue
+const PERMANENT_ERRORS = ['permission-denied', 'invalid-argument'];
+
+// In-memory mirror of the stored queue, oldest first
+let queue: OutboxEntry[] = [];
+const persisting = new WeakMap<OutboxEntry, Promise<void>>();
+
+let database: Promise<IDBDatabase | null> | null = null;
+let loaded: Promise<void> | null = null;
+let processing = false;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function getDatabase(): Promise<IDBDatabase | null> {
+    database ??= openDatabase(DB_NAME, 1, (idb) => {
+        idb.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    }).catch((error) => {
+        // Private browsing can block IndexedDB; the queue still works for this session
+        console.error('Outbox is not durable:', error);
+        return null;
+    });
+    return database;
+}
+
+function persistEntry(entry: OutboxEntry): Promise<void> {
+    const write = (async () => {
+        const idb = await getDatabase();
+        if (!idb) return;
+        const transaction = idb.transaction(STORE_NAME, 'readwrite');
+        const { id, ...record } = entry;
+        entry.id = await requestToPromise(transaction.objectStore(STORE_NAME).put(id === undefined ? record : entry)) as number;
+        await transactionDone(transaction);
+    })();
+    persisting.set(entry, write.catch(() => {}));
+    return write;
+}
+
+async function dropEntry(entry: OutboxEntry): Promise<void> {
+    queue = queue.filter(e => e !== entry);
+    reportPending();
+
+    // The entry may still be on its way into the store
+    await persisting.get(entry);
+    const idb = await getDatabase();
+    if (!idb || entry.id === undefined) return;
+    const transaction = idb.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(entry.id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Put entries left over from an earlier session in front of the queue
+ */
+function loadPersisted(): Promise<void> {
+    loaded ??= (async () => {
+        const idb = await getDatabase();
+        if (!idb) return;
+        const transaction = idb.transaction(STORE_NAME, 'readonly');
+        const stored = await requestToPromise(transaction.objectStore(STORE_NAME).getAll()) as OutboxEntry[];
+        const known = new Set(queue.map(e => e.id));
+        queue = [...stored.filter(e => !known.has(e.id)), ...queue];
+        reportPending();
+    })().catch((error) => console.error('Error loading outbox:', error));
+    return loaded;
+}
+
+function reportPending() {
+    const { user } = useAuthStore.getState();
+    useSyncStore.getState().setPending(queue.filter(e => e.userId === user?.uid).length);
+}
+
+function errorCode(error: unknown): string | undefined {
+    return (error as { code?: string })?.code;
+}
+
+async function applyEntry(entry: OutboxEntry): Promise<void> {
+    const [first] = entry.mutations;
+    if (first?.type === 'deleteConversation') {
+        await deleteConversationDocs(entry.userId, first.conversationId);
+        return;
+    }
+
+    let reads = 0;
+    let writes = 0;
+
+    await runTransaction(db, async (transaction) => {
+        // The transaction function can run more than once
+        reads = 0;
+        writes = 0;
+
+        const versioned = entry.mutations.filter(
+            (m): m is Extract<OutboxMutation, { type: 'set' }> => m.type === 'set' && m.version !== undefined
+        );
+        const current = await Promise.all(versioned.map(m => transaction.get(doc(db, m.path))));
+        reads = current.length;
+
+        // Last writer wins, unless another device already saved a newer version
+        const stale = new Set(versioned
+            .filter((m, i) => (current[i].get('version') ?? 0) > m.version!)
+            .map(m => m.path));
+
+        for (const mutation of entry.mutations) {
+            if (mutation.type === 'set' && !stale.has(mutation.path)) {
+                transaction.set(doc(db, mutation.path), mutation.data, { merge: !!mutation.merge });
+                writes++;
+            } else if (mutation.type === 'delete') {
+                transaction.delete(doc(db, mutation.path));
+                writes++;
+            }
+        }
+    });
+
+    const usage = useUsageStore.getState();
+    if (reads > 0) usage.incrementFirestoreRead(reads);
+    if (writes > 0) usage.incrementFirestoreWrite(writes);
+}
+
+/**
+ * Apply queued mutations in order. Stops at the first failure and retries
+ * with backoff, or as soon as the browser is back online.
+ */
+export async function processOutbox(): Promise<void> {
+    if (processing) return;
+    processing = true;
+    if (retryTimeout) clearTimeout(retryTimeout);
+    retryTimeout = null;
+
+    try {
+        await loadPersisted();
+        const sync = useSyncStore.getState();
+
+        while (true) {
+            const { user } = useAuthStore.getState();
+            const entry = queue.find(e => e.userId === user?.uid);
+            if (!entry) break;
+
+            if (!navigator.onLine) {
+                sync.setOffline();
+                return;
+            }
+
+            // Changes stay queued until the daily write quota resets
+            if (!useUsageStore.getState().canMakeFirestoreWrite()) {
+                const resetAt = new Date();
+                resetAt.setUTCHours(24, 0, 0, 0);
+                retryTimeout = setTimeout(processOutbox, resetAt.getTime() - Date.now());
+                sync.setFailed('Daily database write limit reached; changes are kept and sent after midnight UTC', resetAt);
+                return;
+            }
+
+            sync.setSyncing();
+            try {
+                await applyEntry(entry);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Could not save changes';
+
+                if (PERMANENT_ERRORS.includes(errorCode(error) ?? '')) {
+                    console.error('Dropping a change Firestore rejected:', error);
+                    await dropEntry(entry);
+                    sync.setFailed(message, null);
+                    continue;
+                }
+
+                entry.attempts++;
+                await persistEntry(entry).catch(console.error);
+
+                const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, entry.attempts - 1), MAX_RETRY_DELAY);
+                const jitter = delay * 0.1 * Math.random();
+                retryTimeout = setTimeout(processOutbox, delay + jitter);
+                sync.setFailed(message, new Date(Date.now() + delay + jitter));
+                return;
+            }
+
+            await dropEntry(entry);
+            sync.setSynced();
+        }
+    } finally {
+        processing = false;
+    }
+}
+
+/**
+ * Queue mutations to be applied together. They are stored before they are
+ * sent, so a reload or lost connection does not drop them.
+ */
+export function enqueueMutations(userId: string, mutations: OutboxMutation[]): void {
+    if (mutations.length === 0) return;
+
+    const entry: OutboxEntry = { userId, mutations, createdAt: Date.now(), attempts: 0 };
+    queue.push(entry);
+    reportPending();
+
+    persistEntry(entry)
+        .catch((error) => console.error('Error storing outbox entry:', error))
+        .finally(() => processOutbox());
+}
+
+/**
+ * Whether a queued mutation will still write to the document at `path`
+ */
+export function hasPendingWrite(path: string): boolean {
+    return queue.some(e => e.mutations.some(m => m.type !== 'deleteConversation' && m.path === path));
+}
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => processOutbox());
+    window.addEventListener('offline', () => {
+        if (queue.length > 0) useSyncStore.getState().setOffline();
+    });
+}
@@ -0,0 +1,119 @@
+// Buffered conversation writes so streamed tokens do not each rewrite Firestore
+import { conversationsPath, messagesPath, toConversationDoc, toMessageDoc } from './conversations';
+import { enqueueMutations, hasPendingWrite, type OutboxMutation } from './outbox';
+import { useAuthStore } from '@/stores/authStore';
+import { useChatStore } from '@/stores/chatStore';
+
+// How long a streaming conversation may go without being saved
+export const CONVERSATION_FLUSH_DELAY = 2000;
+
+// What changed in a conversation since it was last written
+interface PendingSave {
+    timeoutId?: ReturnType<typeof setTimeout>;
+    header: boolean;
+    messageIds: Set<string>;
+}
+
+const pending = new Map<string, PendingSave>();
+
+/**
+ * Queue the pending header and messages of a conversation, as they are in the store right now, in the outbox
+ */
+export function flushConversation(conversationId: string): void {
+    const save = pending.get(conversationId);
+    if (!save) return;
+    clearTimeout(save.timeoutId);
+    pending.delete(conversationId);
+
+    const { user } = useAuthStore.getState();
+    const conversation = useChatStore.getState().conversations.find(c => c.id === conversationId);
+    if (!user || !conversation) return;
+
+    const mutations: OutboxMutation[] = [];
+    if (save.header) {
+        mutations.push({
+            type: 'set',
+            path: `${conversationsPath(user.uid)}/${conversationId}`,
+            data: toConversationDoc(conversation),
+        });
+    }
+    for (const messageId of save.messageIds) {
+        // Messages deleted since they were queued are removed by deleteMessage
+        const message = conversation.messages.find(m => m.id === messageId);
+        if (!message) continue;
+        mutations.push({
+            type: 'set',
+            path: `${messagesPath(user.uid, conversationId)}/${messageId}`,
+            data: toMessageDoc(message),
+            version: message.version,
+        });
+    }
+
+    enqueueMutations(user.uid, mutations);
+}
+
+function enqueue(conversationId: string, change: { header?: boolean; messageId?: string }, immediate: boolean): void {
+    const save = pending.get(conversationId) ?? { header: false, messageIds: new Set<string>() };
+    if (change.header) save.header = true;
+    if (change.messageId) save.messageIds.add(change.messageId);
+    pending.set(conversationId, save);
+
+    if (immediate) {
+        flushConversation(conversationId);
+        return;
+    }
+    if (save.timeoutId) return;
+
+    save.timeoutId = setTimeout(() => flushConversation(conversationId), CONVERSATION_FLUSH_DELAY);
+}
+
+/**
+ * Save a conversation's header (title, counts, dates). Saves are coalesced for
+ * `CONVERSATION_FLUSH_DELAY` unless `immediate` is set.
+ */
+export function saveConversation(conversationId: string, { immediate = false } = {}): void {
+    enqueue(conversationId, { header: true }, immediate);
+}
+
+/**
+ * Save one message of a conversation. A stream coalesces into a handful of
+ * writes instead of one per token; pass `immediate` once it ends.
+ */
+export function saveMessage(conversationId: string, messageId: string, { immediate = false } = {}): void {
+    enqueue(conversationId, { messageId }, immediate);
+}
+
+/**
+ * Whether local changes to a conversation header (or to one of its messages)
+ * are buffered or queued in the outbox, so a snapshot from Firestore would be stale
+ */
+export function hasPendingSave(conversationId: string, messageId?: string): boolean {
+    const save = pending.get(conversationId);
+    const buffered = messageId ? !!save?.messageIds.has(messageId) : !!save?.header;
+    if (buffered) return true;
+
+    const { user } = useAuthStore.getState();
+    if (!user) return false;
+    return hasPendingWrite(messageId
+        ? `${messagesPath(user.uid, conversationId)}/${messageId}`
+        : `${conversationsPath(user.uid)}/${conversationId}`);
+}
+
+/**
+ * Drop a scheduled save, e.g. when the conversation is deleted
+ */
+export function cancelConversationSave(conversationId: string): void {
+    clearTimeout(pending.get(conversationId)?.timeoutId);
+    pending.delete(conversationId);
+}
+
+/**
+ * Queue every conversation that still has a scheduled save
+ */
+export function flushAllConversations(): void {
+    [...pending.keys()].forEach(flushConversation);
+}
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flushAllConversations);
+}
@@ -5,17 +5,20 @@ import {
     type ChatSession,
     type FunctionDeclaration as GeminiFunctionDeclaration,
     SchemaType,
-    type Content
+    type Content,
+    type UsageMetadata
 } from '@google/generative-ai';
 import { SYSTEM_PROMPT } from './prompts';
 import { executeToolCall, getEnabledFunctionDeclarations } from './tools';
 import { useApiKeyStore } from '@/stores/apiKeyStore';
 import { useSettingsStore } from '@/stores/settingsStore';
-
-export type GeminiModel = 'gemini-2.5-flash-lite' | 'gemini-2.5-flash';
+import { useUsageStore } from '@/stores/usageStore';
+import { addUsage } from '@/lib/models/usage';
+import type { TokenUsage } from '@/types/chat';
+import type { DiscoveredModel } from '@/types/models';
 
 export interface GeminiClientOptions {
-    model?: GeminiModel;
+    model?: string;
     enabledToolIds?: string[];
     temperature?: number;
     maxOutputTokens?: number;
@@ -25,11 +28,12 @@ export interface SendMessageResult {
     text: string;
     toolCalls?: Array<{ name: string; args: Record<string, unknown>; result: unknown }>;
     finishReason?: string;
+    usage?: TokenUsage;
 }
 
 const genAICache: Record<string, GoogleGenerativeAI> = {};
 
-function getClient(): GoogleGenerativeAI {
+function getApiKey(): string {
     const userApiKey = useApiKeyStore.getState().keys.gemini;
     const envApiKey = import.meta.env.VITE_GEMINI_API_KEY;
     const apiKey = userApiKey || envApiKey;
@@ -38,6 +42,12 @@ function getClient(): GoogleGenerativeAI {
         throw new Error('Gemini API key not configured. Please add it in Settings.');
     }
 
+    return apiKey;
+}
+
+function getClient(): GoogleGenerativeAI {
+    const apiKey = getApiKey();
+
     if (!genAICache[apiKey]) {
         genAICache[apiKey] = new GoogleGenerativeAI(apiKey);
     }
@@ -116,16 +126,30 @@ export function createChat(options: GeminiClientOptions = {}, history: Content[]
     return model.startChat({ history });
 }
 
+// Output is billed with thinking tokens, which candidatesTokenCount leaves out
+function toTokenUsage(metadata: UsageMetadata | undefined): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    return {
+        inputTokens: metadata.promptTokenCount,
+        outputTokens: metadata.totalTokenCount - metadata.promptTokenCount,
+        totalTokens: metadata.totalTokenCount,
+    };
+}
+
 export async function sendMessage(
     chat: ChatSession,
     message: string,
     onToken?: (token: string) => void,
-    onToolCall?: (name: string, args: Record<string, unknown>) => Promise<void>
+    onToolCall?: (name: string, args: Record<string, unknown>) => Promise<void>,
+    onToolResult?: (name: string, result: unknown) => Promise<void>,
+    signal?: AbortSignal
 ): Promise<SendMessageResult> {
-    const result = await chat.sendMessageStream(message);
+    useUsageStore.getState().incrementGemini();
+    const result = await chat.sendMessageStream(message, { signal });
     let fullText = '';
 
     for await (const chunk of result.stream) {
+        signal?.throwIfAborted();
         const chunkText = chunk.text();
         fullText += chunkText;
         if (onToken) onToken(chunkText);
@@ -133,11 +157,15 @@ export async function sendMessage(
 
     const response = await result.response;
     let functionCalls = response.functionCalls();
+    let finishReason: string | undefined = response.candidates?.[0]?.finishReason;
+    // Each follow-up resends the whole chat, so every round is billed
+    let usage = toTokenUsage(response.usageMetadata);
 
     if (!functionCalls || functionCalls.length === 0) {
         return {
             text: fullText,
-            finishReason: response.candidates?.[0]?.finishReason,
+            finishReason,
+            usage,
         };
     }
 
@@ -145,14 +173,20 @@ export async function sendMessage(
     const toolCalls: Array<{ name: string; args: Record<string, unknown>; result: unknown }> = [];
 
     while (functionCalls && functionCalls.length > 0) {
+        const roundCalls: typeof toolCalls = [];
         for (const fc of functionCalls) {
+            // Skip the remaining tools once the user has stopped the turn
+            signal?.throwIfAborted();
             const args = fc.args as Record<string, unknown>;
             if (onToolCall) await onToolCall(fc.name, args);
-            const toolResult = await executeToolCall(fc.name, args);
-            toolCalls.push({ name: fc.name, args, result: toolResult });
+            const toolResult = await executeToolCall(fc.name, args, signal);
+            if (onToolResult) await onToolResult(fc.name, toolResult);
+            roundCalls.push({ name: fc.name, args, result: toolResult });
         }
+        toolCalls.push(...roundCalls);
 
-        const functionResponseParts = toolCalls.map(tc => ({
+        // Only answer the calls made in this round
+        const functionResponseParts = roundCalls.map(tc => ({
             functionResponse: {
                 name: tc.name,
                 response: tc.result as object,
@@ -160,7 +194,9 @@ export async function sendMessage(
         }));
 
         // Follow-up after tool execution (we could also stream this, but simpler for now)
-        const followUpResult = await chat.sendMessage(functionResponseParts);
+        signal?.throwIfAborted();
+        useUsageStore.getState().incrementGemini();
+        const followUpResult = await chat.sendMessage(functionResponseParts, { signal });
         const followUpResponse = followUpResult.response;
 
         const followUpText = followUpResponse.text();
@@ -168,12 +204,15 @@ export async function sendMessage(
         if (onToken) onToken(followUpText);
 
         functionCalls = followUpResponse.functionCalls();
+        finishReason = followUpResponse.candidates?.[0]?.finishReason;
+        usage = addUsage(usage, toTokenUsage(followUpResponse.usageMetadata));
     }
 
     return {
         text: fullText,
         toolCalls,
-        finishReason: response.candidates?.[0]?.finishReason,
+        finishReason,
+        usage,
     };
 }
 
@@ -182,6 +221,7 @@ export async function generateContent(
     options: GeminiClientOptions = {}
 ): Promise<string> {
     const model = createModel(options);
+    useUsageStore.getState().incrementGemini();
     const result = await model.generateContent(prompt);
     return result.response.text();
 }
@@ -192,17 +232,43 @@ export function isGeminiConfigured(): boolean {
     return !!(userApiKey || envApiKey);
 }
 
-export function getAvailableModels(): Array<{ id: GeminiModel; name: string; description: string }> {
-    return [
-        {
-            id: 'gemini-2.5-flash-lite',
-            name: 'Gemini 2.5 Flash Lite',
-            description: 'Latest and fastest, with native tool support',
-        },
-        {
-            id: 'gemini-2.5-flash',
-            name: 'Gemini 2.5 Flash',
-            description: 'Stable and reliable, great for most tasks',
-        },
-    ];
+// Speech, embedding, image and live audio models answer generateContent but cannot chat
+const NON_CHAT_MODEL = /tts|embedding|image|native-audio|live/i;
+
+/**
+ * List the Gemini chat models available to this API key. Tool and vision
+ * support is not reported, so it comes from the catalog.
+ */
+export async function listModels(): Promise<DiscoveredModel[]> {
+    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000', {
+        headers: { 'x-goog-api-key': getApiKey() },
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to list Gemini models (${response.status})`);
+    }
+
+    const data: {
+        models?: Array<{
+            name: string;
+            displayName?: string;
+            description?: string;
+            inputTokenLimit?: number;
+            outputTokenLimit?: number;
+            supportedGenerationMethods?: string[];
+        }>;
+    } = await response.json();
+
+    return (data.models ?? [])
+        .filter(m => m.name.startsWith('models/gemini')
+            && m.supportedGenerationMethods?.includes('generateContent')
+            && !NON_CHAT_MODEL.test(m.name))
+        .map(m => ({
+            id: m.name.replace(/^models\//, ''),
+            name: m.displayName,
+            description: m.description,
+            capabilities: {
+                contextWindow: m.inputTokenLimit,
+                maxOutputTokens: m.outputTokenLimit,
+            },
+        }));
 }
@@ -24,6 +24,7 @@ export const SYSTEM_PROMPT = `You are an advanced AI assistant with access to va
 - **CRITICAL**: For any weather-related inquiries (current weather, forecasts, conditions), you MUST use the \`get_weather\` tool. DO NOT use \`web_search\` for weather.
 - For other current events, news, or general real-time information that is NOT weather, use \`web_search\`.
 - For mathematical calculations, use the calculator tool
+- Only use \`deep_research\` when the user asks for in-depth research or a report; it takes several minutes and posts its own cited report
 - Explain what you're doing when using tools so users understand the process
 
 ### Code
@@ -111,3 +112,12 @@ Answer YES or NO, then explain your reasoning.
 
 Summary to evaluate:
 `;
+
+export const FINDINGS_FORMAT_PROMPT = `
+
+Return the findings as a JSON array and nothing else. Each item must have:
+- "claim": one concise finding
+- "sources": the numbers of the search results that support it, e.g. [1, 3]
+- "confidence": a number from 0 to 1 for how well the sources support the claim
+
+Example: [{"claim": "...", "sources": [1, 3], "confidence": 0.8}]`;
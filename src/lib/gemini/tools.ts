@@ -103,34 +103,65 @@ export const FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
             required: ['prompt'],
         },
     },
+    {
+        name: 'deep_research',
+        description: 'Conduct multi-step research on a complex topic: plans search queries, searches the web over several iterations, analyzes the results and writes a cited report. Use this only when the user asks for thorough research or an in-depth report, not for quick lookups.',
+        parameters: {
+            type: 'object',
+            properties: {
+                topic: {
+                    type: 'string',
+                    description: 'The research topic or question, stated as specifically as possible.',
+                },
+            },
+            required: ['topic'],
+        },
+    },
 ];
 
 // Tool execution handlers
-export async function executeToolCall(
-    name: string,
-    args: Record<string, unknown>
-): Promise<unknown> {
+function runTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): unknown {
     switch (name) {
         case 'web_search':
-            return executeWebSearch(args);
+            return executeWebSearch(args, signal);
         case 'get_current_time':
             return executeGetCurrentTime(args);
         case 'calculate':
             return executeCalculate(args);
         case 'get_weather':
-            return executeGetWeather(args);
+            return executeGetWeather(args, signal);
         case 'get_stock_price':
             return executeGetStockPrice(args);
         case 'generate_image':
             return executeGenerateImage(args);
+        case 'deep_research':
+            return executeDeepResearch(args, signal);
         default:
             throw new Error(`Unknown tool: ${name}`);
     }
 }
 
+/**
+ * Run a tool call. `signal` cancels its requests; tools report failures as
+ * results, so a cancelled call is rethrown here rather than answered.
+ */
+export async function executeToolCall(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+): Promise<unknown> {
+    signal?.throwIfAborted();
+    const result = await runTool(name, args, signal);
+    signal?.throwIfAborted();
+    return result;
+}
+
 import { useApiKeyStore } from '@/stores/apiKeyStore';
+import { useChatStore } from '@/stores/chatStore';
+import { useResearchStore } from '@/stores/researchStore';
+import { useUsageStore } from '@/stores/usageStore';
 
-async function executeGetWeather(args: Record<string, unknown>): Promise<unknown> {
+async function executeGetWeather(args: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
     const location = args.location as string;
     const unit = (args.unit as string) || 'celsius';
 
@@ -143,10 +174,21 @@ async function executeGetWeather(args: Record<string, unknown>): Promise<unknown
         };
     }
 
+    // A lookup takes three requests: geocoding, current weather and forecast
+    const usage = useUsageStore.getState();
+    if (!usage.canMakeWeatherCall()) {
+        return {
+            success: false,
+            error: `Daily weather limit reached (${usage.getUsageStats().weather.limit} requests). It resets at midnight UTC.`,
+        };
+    }
+
     try {
         // First, get coordinates
+        usage.incrementWeather();
         const geoResponse = await fetch(
-            `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(location)}&limit=1&appid=${apiKey}`
+            `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(location)}&limit=1&appid=${apiKey}`,
+            { signal }
         );
         const geoData = await geoResponse.json();
 
@@ -158,8 +200,10 @@ async function executeGetWeather(args: Record<string, unknown>): Promise<unknown
         const units = unit === 'fahrenheit' ? 'imperial' : 'metric';
 
         // Then, get current weather
+        usage.incrementWeather();
         const weatherResponse = await fetch(
-            `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&units=${units}&appid=${apiKey}`
+            `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&units=${units}&appid=${apiKey}`,
+            { signal }
         );
         const data = await weatherResponse.json();
 
@@ -168,8 +212,10 @@ async function executeGetWeather(args: Record<string, unknown>): Promise<unknown
         }
 
         // Get forecast
+        usage.incrementWeather();
         const forecastResponse = await fetch(
-            `https://api.openweathermap.org/data/2.5/forecast?lat=${lat}&lon=${lon}&units=${units}&cnt=16&appid=${apiKey}`
+            `https://api.openweathermap.org/data/2.5/forecast?lat=${lat}&lon=${lon}&units=${units}&cnt=16&appid=${apiKey}`,
+            { signal }
         );
         const forecastData = await forecastResponse.json();
 
@@ -235,12 +281,40 @@ async function executeGenerateImage(args: Record<string, unknown>): Promise<unkn
     };
 }
 
-async function executeWebSearch(args: Record<string, unknown>): Promise<unknown> {
+async function executeDeepResearch(args: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    const topic = args.topic as string;
+    const conversationId = useChatStore.getState().activeConversationId;
+
+    if (!conversationId) {
+        return { success: false, error: 'No active conversation to post the research report to' };
+    }
+
+    const session = await useResearchStore.getState().startResearch(topic, conversationId, signal);
+
+    if (session.status !== 'complete') {
+        return {
+            success: false,
+            error: session.error || 'Research did not complete',
+        };
+    }
+
+    return {
+        success: true,
+        session_id: session.id,
+        topic: session.topic,
+        queries: session.queries,
+        sources_found: session.sources.length,
+        iterations: session.progress.iteration,
+        info: 'The full cited report is posted to the conversation right after your reply. Reply with a short summary of the key conclusions; do not repeat the report.',
+    };
+}
+
+async function executeWebSearch(args: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
     const query = args.query as string;
     const searchDepth = (args.search_depth as 'basic' | 'advanced') || 'basic';
 
     try {
-        const results = await searchWeb(query, { searchDepth, maxResults: 5 });
+        const results = await searchWeb(query, { searchDepth, maxResults: 5, signal });
         return {
             success: true,
             query: results.query,
@@ -335,21 +409,23 @@ function executeCalculate(args: Record<string, unknown>): unknown {
     }
 }
 
+// Tool ids from the tool store mapped to the function each tool exposes
+export const TOOL_FUNCTION_NAMES: Record<string, string> = {
+    'web_search': 'web_search',
+    'get_current_time': 'get_current_time',
+    'calculator': 'calculate',
+    'weather': 'get_weather',
+    'stock_data': 'get_stock_price',
+    'image_generation': 'generate_image',
+    'deep_research': 'deep_research',
+};
+
 /**
  * Get function declarations for enabled tools only
  */
 export function getEnabledFunctionDeclarations(enabledToolIds: string[]): FunctionDeclaration[] {
-    const toolIdToFunctionName: Record<string, string> = {
-        'web_search': 'web_search',
-        'get_current_time': 'get_current_time',
-        'calculator': 'calculate',
-        'weather': 'get_weather',
-        'stock_data': 'get_stock_price',
-        'image_generation': 'generate_image',
-    };
-
     const enabledFunctions = enabledToolIds
-        .map(id => toolIdToFunctionName[id])
+        .map(id => TOOL_FUNCTION_NAMES[id])
         .filter(Boolean);
 
     return FUNCTION_DECLARATIONS.filter(fd => enabledFunctions.includes(fd.name));
@@ -0,0 +1,93 @@
+// Check provider API keys with the cheapest authenticated request each provider offers
+import type { APIKeys } from '@/stores/apiKeyStore';
+
+export type KeyProvider = keyof APIKeys;
+
+export type KeyStatus = 'valid' | 'invalid' | 'quota_exceeded' | 'unreachable';
+
+export interface KeyCheckResult {
+    status: KeyStatus;
+    message?: string;
+    checkedAt: string;
+}
+
+const CHECK_TIMEOUT = 10000;
+
+// Keys bundled with the build, used when the user has not entered their own
+const ENV_KEYS: Record<KeyProvider, string | undefined> = {
+    gemini: import.meta.env.VITE_GEMINI_API_KEY,
+    groq: import.meta.env.VITE_GROQ_API_KEY,
+    tavily: import.meta.env.VITE_TAVILY_API_KEY,
+    weather: import.meta.env.VITE_OPENWEATHER_API_KEY,
+};
+
+const KEY_CHECKS: Record<KeyProvider, (key: string, signal: AbortSignal) => Promise<Response>> = {
+    // Lists one model; no tokens are generated
+    gemini: (key, signal) => fetch('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', {
+        headers: { 'x-goog-api-key': key },
+        signal,
+    }),
+    groq: (key, signal) => fetch('https://api.groq.com/openai/v1/models', {
+        headers: { Authorization: `Bearer ${key}` },
+        signal,
+    }),
+    // The usage endpoint does not spend search credits
+    tavily: (key, signal) => fetch('https://api.tavily.com/usage', {
+        headers: { Authorization: `Bearer ${key}` },
+        signal,
+    }),
+    weather: (key, signal) => fetch(
+        `https://api.openweathermap.org/geo/1.0/direct?q=London&limit=1&appid=${encodeURIComponent(key)}`,
+        { signal }
+    ),
+};
+
+export const KEY_PROVIDERS = Object.keys(KEY_CHECKS) as KeyProvider[];
+
+export function getEffectiveKey(provider: KeyProvider, keys: APIKeys): string | undefined {
+    return keys[provider] || ENV_KEYS[provider];
+}
+
+async function errorMessage(response: Response): Promise<string | undefined> {
+    try {
+        const body = await response.json();
+        return body?.error?.message ?? body?.detail?.error ?? body?.message;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Classify a check response. Gemini answers a bad key with 400, Tavily
+ * reports exhausted plans with 432 and 433.
+ */
+async function toResult(response: Response): Promise<Omit<KeyCheckResult, 'checkedAt'>> {
+    if (response.ok) return { status: 'valid' };
+
+    const message = await errorMessage(response);
+    if (response.status === 429 || response.status === 432 || response.status === 433) {
+        return { status: 'quota_exceeded', message };
+    }
+    if (response.status === 400 || response.status === 401 || response.status === 403) {
+        return { status: 'invalid', message };
+    }
+    return { status: 'unreachable', message: message ?? `HTTP ${response.status}` };
+}
+
+/**
+ * Make a minimal authenticated request with the key and report whether it works
+ */
+export async function validateKey(provider: KeyProvider, key: string): Promise<KeyCheckResult> {
+    const checkedAt = new Date().toISOString();
+
+    try {
+        const response = await KEY_CHECKS[provider](key, AbortSignal.timeout(CHECK_TIMEOUT));
+        return { ...await toResult(response), checkedAt };
+    } catch (error) {
+        return {
+            status: 'unreachable',
+            message: error instanceof Error ? error.message : 'Request failed',
+            checkedAt,
+        };
+    }
+}
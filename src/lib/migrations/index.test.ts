@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION_FIELD, createMigrations, migrateDocument, remapModelId } from './index';
+
+const migrations = createMigrations<Record<string, unknown>>([
+    (state) => ({ ...state, steps: [...(state.steps as string[] ?? []), 'v1'] }),
+    (state) => ({ ...state, steps: [...(state.steps as string[] ?? []), 'v2'] }),
+]);
+
+describe('createMigrations', () => {
+    it('defaults the version to the number of steps', () => {
+        expect(migrations.version).toBe(2);
+        expect(createMigrations([], 3).version).toBe(3);
+    });
+
+    it('runs every step after the saved version, in order', () => {
+        expect(migrations.migrate({}, 0)).toEqual({ steps: ['v1', 'v2'] });
+        expect(migrations.migrate({ steps: ['v1'] }, 1)).toEqual({ steps: ['v1', 'v2'] });
+    });
+
+    it('treats a missing or invalid persisted state as empty', () => {
+        expect(migrations.migrate(undefined, 1)).toEqual({ steps: ['v2'] });
+        expect(migrations.migrate('corrupt', 2)).toEqual({});
+    });
+
+    it('does not mutate the persisted state', () => {
+        const persisted = { steps: [] };
+        migrations.migrate(persisted, 0);
+        expect(persisted).toEqual({ steps: [] });
+    });
+});
+
+describe('migrateDocument', () => {
+    it('upgrades documents without a schema version and marks them outdated', () => {
+        expect(migrateDocument({ name: 'a' }, migrations)).toEqual({
+            state: { name: 'a', steps: ['v1', 'v2'] },
+            outdated: true,
+        });
+    });
+
+    it('starts from the stored schema version', () => {
+        const { state, outdated } = migrateDocument({ [SCHEMA_VERSION_FIELD]: 1, steps: ['v1'] }, migrations);
+        expect(state).toEqual({ steps: ['v1', 'v2'] });
+        expect(outdated).toBe(true);
+    });
+
+    it('leaves current documents alone and strips the version field', () => {
+        expect(migrateDocument({ [SCHEMA_VERSION_FIELD]: 2, name: 'a' }, migrations)).toEqual({
+            state: { name: 'a' },
+            outdated: false,
+        });
+    });
+});
+
+describe('remapModelId', () => {
+    it('maps retired models to their replacement and keeps others', () => {
+        expect(remapModelId('llama-3.3-70b-specdec')).toBe('llama-3.3-70b-versatile');
+        expect(remapModelId('gemini-2.5-flash')).toBe('gemini-2.5-flash');
+    });
+});
@@ -0,0 +1,70 @@
+// Versioned migrations for persisted state, shared by the zustand stores and their Firestore copies
+
+export type MigratableState = Record<string, unknown>;
+
+// Upgrades state saved at one version to the next
+export type Migration = (state: MigratableState) => MigratableState;
+
+export interface Migrations<S> {
+    version: number;
+    migrate: (persistedState: unknown, version: number) => S;
+}
+
+// Field that records the schema version on migrated Firestore documents
+export const SCHEMA_VERSION_FIELD = 'schemaVersion';
+
+// Model ids the providers have shut down, mapped to their closest replacement
+export const RETIRED_MODEL_IDS: Record<string, string> = {
+    'llama-3.3-70b-specdec': 'llama-3.3-70b-versatile',
+    'llama-3.1-70b-versatile': 'llama-3.3-70b-versatile',
+    'llama3-70b-8192': 'llama-3.3-70b-versatile',
+    'llama3-8b-8192': 'llama-3.1-8b-instant',
+    'mixtral-8x7b-32768': 'llama-3.3-70b-versatile',
+    'gemma2-9b-it': 'llama-3.1-8b-instant',
+    'deepseek-r1-distill-llama-70b': 'openai/gpt-oss-120b',
+    'gemini-2.0-flash-exp': 'gemini-2.5-flash',
+    'gemini-1.5-flash': 'gemini-2.5-flash-lite',
+};
+
+export function remapModelId(modelId: string): string {
+    return RETIRED_MODEL_IDS[modelId] ?? modelId;
+}
+
+/**
+ * Build the `version` and `migrate` options of a persisted store.
+ * `steps[i]` upgrades state saved at version `i`; state saved before
+ * versioning was introduced counts as version 0.
+ */
+export function createMigrations<S>(steps: Migration[], version = steps.length): Migrations<S> {
+    return {
+        version,
+        migrate: (persistedState, fromVersion) => {
+            let state: MigratableState = persistedState && typeof persistedState === 'object'
+                ? { ...persistedState as MigratableState }
+                : {};
+
+            for (let v = fromVersion; v < version; v++) {
+                state = steps[v]?.(state) ?? state;
+            }
+
+            return state as S;
+        },
+    };
+}
+
+/**
+ * Upgrade a Firestore document with the same migrations as the local store.
+ * `outdated` tells the caller to write the upgraded document back.
+ */
+export function migrateDocument<S>(
+    data: MigratableState,
+    migrations: Migrations<S>
+): { state: S; outdated: boolean } {
+    const { [SCHEMA_VERSION_FIELD]: storedVersion, ...rest } = data;
+    const version = typeof storedVersion === 'number' ? storedVersion : 0;
+
+    if (version >= migrations.version) {
+        return { state: rest as S, outdated: false };
+    }
+    return { state: migrations.migrate(rest, version), outdated: true };
+}
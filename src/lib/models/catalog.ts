@@ -0,0 +1,113 @@
+// Known models with capabilities the list-models endpoints do not report
+import type { AIProvider } from '@/stores/settingsStore';
+import type { AIModel, DiscoveredModel, ModelCapabilities } from '@/types/models';
+
+export const BUILTIN_MODELS: AIModel[] = [
+    {
+        id: 'gemini-2.5-flash',
+        name: 'Gemini 2.5 Flash',
+        description: 'Newest and most capable Flash model (Google)',
+        provider: 'gemini',
+        capabilities: {
+            tools: true,
+            vision: true,
+            contextWindow: 1048576,
+            maxOutputTokens: 65536,
+            pricing: { input: 0.3, output: 2.5 },
+        },
+    },
+    {
+        id: 'gemini-2.5-flash-lite',
+        name: 'Gemini 2.5 Flash Lite',
+        description: 'Fastest Gemini model (Google)',
+        provider: 'gemini',
+        capabilities: {
+            tools: true,
+            vision: true,
+            contextWindow: 1048576,
+            maxOutputTokens: 65536,
+            pricing: { input: 0.1, output: 0.4 },
+        },
+    },
+    {
+        id: 'llama-3.3-70b-versatile',
+        name: 'Llama 3.3 70B',
+        description: 'High performance versatile model (Meta)',
+        provider: 'groq',
+        capabilities: {
+            tools: true,
+            vision: false,
+            contextWindow: 131072,
+            maxOutputTokens: 32768,
+            pricing: { input: 0.59, output: 0.79 },
+        },
+    },
+    {
+        id: 'llama-3.1-8b-instant',
+        name: 'Llama 3.1 8B',
+        description: 'Ultra-fast inference (Meta)',
+        provider: 'groq',
+        capabilities: {
+            tools: true,
+            vision: false,
+            contextWindow: 131072,
+            maxOutputTokens: 131072,
+            pricing: { input: 0.05, output: 0.08 },
+        },
+    },
+    {
+        id: 'meta-llama/llama-4-scout-17b-16e-instruct',
+        name: 'Llama 4 Scout',
+        description: 'Multimodal mixture-of-experts model (Meta)',
+        provider: 'groq',
+        capabilities: {
+            tools: true,
+            vision: true,
+            contextWindow: 131072,
+            maxOutputTokens: 8192,
+            pricing: { input: 0.11, output: 0.34 },
+        },
+    },
+    {
+        id: 'openai/gpt-oss-120b',
+        name: 'GPT-OSS 120B',
+        description: 'Open-weight reasoning model (OpenAI)',
+        provider: 'groq',
+        capabilities: {
+            tools: true,
+            vision: false,
+            contextWindow: 131072,
+            maxOutputTokens: 65536,
+            pricing: { input: 0.15, output: 0.75 },
+        },
+    },
+];
+
+// Assumed for models the catalog has never seen
+const UNKNOWN_CAPABILITIES: ModelCapabilities = {
+    tools: false,
+    vision: false,
+};
+
+/**
+ * Combine what a provider reports about a model with what the catalog knows.
+ * Anything the provider reports wins; the rest comes from the catalog.
+ */
+export function toRegistryModel(provider: AIProvider, discovered: DiscoveredModel): AIModel {
+    const known = BUILTIN_MODELS.find(m => m.provider === provider && m.id === discovered.id);
+    const reported = Object.fromEntries(
+        Object.entries(discovered.capabilities ?? {}).filter(([, value]) => value !== undefined)
+    ) as Partial<ModelCapabilities>;
+
+    return {
+        id: discovered.id,
+        name: known?.name ?? discovered.name ?? discovered.id,
+        description: known?.description ?? discovered.description ?? '',
+        provider,
+        capabilities: {
+            ...UNKNOWN_CAPABILITIES,
+            ...known?.capabilities,
+            ...reported,
+        },
+    };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { addUsage, withCost } from './usage';
+import type { AIModel } from '@/types/models';
+
+const MODELS: AIModel[] = [
+    {
+        id: 'priced',
+        name: 'Priced',
+        description: '',
+        provider: 'groq',
+        capabilities: { tools: true, vision: false, pricing: { input: 0.5, output: 2 } },
+    },
+    {
+        id: 'unpriced',
+        name: 'Unpriced',
+        description: '',
+        provider: 'groq',
+        capabilities: { tools: true, vision: false },
+    },
+];
+
+vi.mock('@/stores/modelStore', () => ({
+    useModelStore: {
+        getState: () => ({
+            getModel: (provider: string, modelId: string) => MODELS.find(m => m.provider === provider && m.id === modelId),
+        }),
+    },
+}));
+
+const usage = (inputTokens: number, outputTokens: number, cost?: number) => ({
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    ...(cost !== undefined && { cost }),
+});
+
+describe('addUsage', () => {
+    it('starts a total from the first usage and ignores missing usage', () => {
+        expect(addUsage(undefined, usage(10, 5))).toEqual(usage(10, 5));
+        expect(addUsage(usage(10, 5), undefined)).toEqual(usage(10, 5));
+        expect(addUsage(undefined, undefined)).toBeUndefined();
+    });
+
+    it('sums token counts and costs', () => {
+        expect(addUsage(usage(10, 5, 0.25), usage(20, 10, 0.5))).toEqual(usage(30, 15, 0.75));
+    });
+
+    it('leaves the cost unset until priced usage is added', () => {
+        expect(addUsage(usage(10, 5), usage(1, 1))).not.toHaveProperty('cost');
+        expect(addUsage(usage(10, 5), usage(1, 1, 0.1))).toEqual(usage(11, 6, 0.1));
+    });
+
+    it('takes usage away with a negative sign', () => {
+        expect(addUsage(usage(30, 15, 0.75), usage(20, 10, 0.5), -1)).toEqual(usage(10, 5, 0.25));
+    });
+});
+
+describe('withCost', () => {
+    it('prices input and output tokens per million', () => {
+        expect(withCost('groq', 'priced', usage(1000000, 500000))).toEqual(usage(1000000, 500000, 1.5));
+    });
+
+    it('leaves usage unpriced for models without pricing or unknown models', () => {
+        expect(withCost('groq', 'unpriced', usage(100, 50))).not.toHaveProperty('cost');
+        expect(withCost('gemini', 'priced', usage(100, 50))).not.toHaveProperty('cost');
+    });
+});
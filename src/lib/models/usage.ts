@@ -0,0 +1,36 @@
+// Token usage totals and cost estimates from the model registry's list prices
+import { useModelStore } from '@/stores/modelStore';
+import type { AIProvider } from '@/stores/settingsStore';
+import type { TokenUsage } from '@/types/chat';
+
+/**
+ * Add one usage record to a running total, or take it away with `sign` -1.
+ * The cost stays unset only while no priced usage has been added.
+ */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined, sign: 1 | -1 = 1): TokenUsage | undefined {
+    if (!usage) return total;
+
+    const cost = total?.cost === undefined && usage.cost === undefined
+        ? undefined
+        : (total?.cost ?? 0) + sign * (usage.cost ?? 0);
+
+    return {
+        inputTokens: (total?.inputTokens ?? 0) + sign * usage.inputTokens,
+        outputTokens: (total?.outputTokens ?? 0) + sign * usage.outputTokens,
+        totalTokens: (total?.totalTokens ?? 0) + sign * usage.totalTokens,
+        ...(cost !== undefined && { cost }),
+    };
+}
+
+/**
+ * Price a reply at the model's per-million-token rates
+ */
+export function withCost(provider: AIProvider, modelId: string, usage: TokenUsage): TokenUsage {
+    const pricing = useModelStore.getState().getModel(provider, modelId)?.capabilities.pricing;
+    if (!pricing) return usage;
+
+    return {
+        ...usage,
+        cost: (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1000000,
+    };
+}
@@ -0,0 +1,257 @@
+// Ollama client for models running on a local server
+import { SYSTEM_PROMPT } from '../gemini/prompts';
+import {
+    runOpenAIChat,
+    toOpenAITools,
+    type OpenAIChatChunk,
+    type OpenAIChatMessage,
+    type OpenAIChatResult,
+    type OpenAITool
+} from '../providers/openaiChat';
+import { useApiKeyStore } from '@/stores/apiKeyStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useModelStore } from '@/stores/modelStore';
+import type { DiscoveredModel } from '@/types/models';
+
+interface OllamaModelInfo {
+    name: string;
+    size: number;
+    details?: {
+        family?: string;
+        parameter_size?: string;
+        quantization_level?: string;
+    };
+}
+
+interface OllamaChatChunk {
+    message?: {
+        content?: string;
+        tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+    };
+    done: boolean;
+    done_reason?: string;
+    // Token counts, sent on the final chunk
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+interface OllamaMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+    tool_name?: string;
+}
+
+function getBaseUrl(): string {
+    return useApiKeyStore.getState().ollama.baseUrl.replace(/\/+$/, '');
+}
+
+async function request(path: string, init?: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(`${getBaseUrl()}${path}`, init);
+    } catch (error) {
+        if (init?.signal?.aborted) throw error;
+        throw new Error(`Could not reach Ollama at ${getBaseUrl()}. Is it running?`);
+    }
+
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Ollama returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    return response;
+}
+
+/**
+ * List the models installed on the Ollama server with what each can do.
+ * Older servers do not report capabilities, so tools are assumed there.
+ */
+export async function listModels(): Promise<DiscoveredModel[]> {
+    const response = await request('/api/tags');
+    const data: { models?: OllamaModelInfo[] } = await response.json();
+
+    return Promise.all((data.models ?? []).map(async (m) => {
+        const details = [m.details?.parameter_size, m.details?.quantization_level].filter(Boolean).join(' · ');
+        let capabilities: string[] | undefined;
+        let contextWindow: number | undefined;
+
+        try {
+            const show = await request('/api/show', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model: m.name }),
+            });
+            const info: { capabilities?: string[]; model_info?: Record<string, unknown> } = await show.json();
+            capabilities = info.capabilities;
+            const contextKey = Object.keys(info.model_info ?? {}).find(k => k.endsWith('.context_length'));
+            contextWindow = contextKey ? Number(info.model_info![contextKey]) : undefined;
+        } catch (error) {
+            console.error(`Error reading Ollama model ${m.name}:`, error);
+        }
+
+        return {
+            id: m.name,
+            description: details ? `Runs locally · ${details}` : 'Runs locally',
+            capabilities: {
+                tools: capabilities ? capabilities.includes('tools') : true,
+                vision: capabilities?.includes('vision') ?? false,
+                contextWindow,
+                pricing: { input: 0, output: 0 },
+            },
+        };
+    }));
+}
+
+// Ollama takes tool call arguments as objects and names tool results by function
+function toOllamaMessages(messages: OpenAIChatMessage[]): OllamaMessage[] {
+    return messages.map(m => ({
+        role: m.role,
+        content: m.content,
+        tool_calls: m.tool_calls?.map(tc => ({
+            function: {
+                name: tc.function.name,
+                arguments: tc.function.arguments ? JSON.parse(tc.function.arguments) : {},
+            },
+        })),
+        tool_name: m.role === 'tool' ? m.name : undefined,
+    }));
+}
+
+/**
+ * Read Ollama's newline-delimited JSON stream as OpenAI-style chunks
+ * so the shared tool loop can consume it
+ */
+async function* readChatStream(response: Response): AsyncIterable<OpenAIChatChunk> {
+    if (!response.body) return;
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let toolCallCount = 0;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const chunk = JSON.parse(line) as OllamaChatChunk;
+
+            const toolCalls = (chunk.message?.tool_calls ?? []).map(tc => ({
+                index: toolCallCount,
+                id: `call_${toolCallCount++}`,
+                function: { name: tc.function.name, arguments: JSON.stringify(tc.function.arguments ?? {}) },
+            }));
+
+            yield {
+                choices: [{
+                    delta: {
+                        content: chunk.message?.content,
+                        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+                    },
+                    finish_reason: chunk.done
+                        ? (toolCallCount > 0 ? 'tool_calls' : chunk.done_reason ?? 'stop')
+                        : null,
+                }],
+                usage: chunk.done && (chunk.prompt_eval_count !== undefined || chunk.eval_count !== undefined)
+                    ? {
+                        prompt_tokens: chunk.prompt_eval_count ?? 0,
+                        completion_tokens: chunk.eval_count ?? 0,
+                        total_tokens: (chunk.prompt_eval_count ?? 0) + (chunk.eval_count ?? 0),
+                    }
+                    : undefined,
+            };
+        }
+    }
+}
+
+async function postChat(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    return request('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+}
+
+/**
+ * Send a message to a local model, with tool support when the model has it
+ */
+export async function sendMessage(
+    messages: OpenAIChatMessage[],
+    modelId: string,
+    enabledToolIds: string[] = [],
+    onToken?: (token: string) => void,
+    onToolCall?: (name: string, args: Record<string, unknown>) => Promise<void>,
+    onToolResult?: (name: string, result: unknown) => Promise<void>,
+    signal?: AbortSignal
+): Promise<OpenAIChatResult> {
+    const { systemPrompt: storeSystemPrompt, temperature: storeTemperature, topP: storeTopP } = useSettingsStore.getState();
+
+    const hasSystemPrompt = messages.some(m => m.role === 'system');
+    const fullMessages: OpenAIChatMessage[] = hasSystemPrompt
+        ? messages
+        : [{ role: 'system', content: storeSystemPrompt || SYSTEM_PROMPT }, ...messages];
+
+    // Set once the model rejects tools so later rounds skip them
+    let toolsUnsupported = false;
+
+    return runOpenAIChat({
+        messages: fullMessages,
+        tools: toOpenAITools(enabledToolIds),
+        createStream: async (conversation: OpenAIChatMessage[], tools: OpenAITool[]) => {
+            const body = {
+                model: modelId,
+                messages: toOllamaMessages(conversation),
+                options: { temperature: storeTemperature, top_p: storeTopP },
+                stream: true,
+            };
+
+            if (tools.length === 0 || toolsUnsupported) {
+                return readChatStream(await postChat(body, signal));
+            }
+
+            try {
+                return readChatStream(await postChat({ ...body, tools }, signal));
+            } catch (error) {
+                if (!(error instanceof Error) || !error.message.includes('does not support tools')) throw error;
+                toolsUnsupported = true;
+                return readChatStream(await postChat(body, signal));
+            }
+        },
+        onToken,
+        onToolCall,
+        onToolResult,
+        signal,
+    });
+}
+
+/**
+ * Generate a single non-streaming completion without tools or history
+ */
+export async function generateText(prompt: string, modelId: string): Promise<string> {
+    const { temperature: storeTemperature } = useSettingsStore.getState();
+
+    const response = await postChat({
+        model: modelId,
+        messages: [{ role: 'user', content: prompt }],
+        options: { temperature: storeTemperature },
+        stream: false,
+    });
+    const data = await response.json();
+
+    return data.message?.content ?? '';
+}
+
+/**
+ * Ollama needs no key. It counts as set up once the user has picked it or
+ * models have been found, so startup does not probe a server that was never run.
+ */
+export function isOllamaConfigured(): boolean {
+    return useSettingsStore.getState().provider === 'ollama'
+        || useModelStore.getState().getModelsForProvider('ollama').length > 0;
+}
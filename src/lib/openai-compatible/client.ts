@@ -0,0 +1,164 @@
+// Client for user-configured endpoints that speak the OpenAI chat completions API
+import { SYSTEM_PROMPT } from '../gemini/prompts';
+import {
+    runOpenAIChat,
+    toOpenAITools,
+    type OpenAIChatChunk,
+    type OpenAIChatMessage,
+    type OpenAIChatResult,
+    type OpenAITool
+} from '../providers/openaiChat';
+import { useApiKeyStore } from '@/stores/apiKeyStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import type { DiscoveredModel } from '@/types/models';
+
+function getEndpoint(): { baseUrl: string; headers: Record<string, string> } {
+    const { baseUrl, apiKey } = useApiKeyStore.getState().openAICompatible;
+
+    if (!baseUrl) {
+        throw new Error('OpenAI-compatible endpoint not configured. Please add a base URL in Settings.');
+    }
+
+    return {
+        baseUrl: baseUrl.replace(/\/+$/, ''),
+        headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+    };
+}
+
+async function postCompletion(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const { baseUrl, headers } = getEndpoint();
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Endpoint returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    return response;
+}
+
+/**
+ * Parse a server-sent event stream of completion chunks
+ */
+async function* readEventStream(response: Response): AsyncIterable<OpenAIChatChunk> {
+    if (!response.body) return;
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:')) continue;
+
+            const payload = data.slice(5).trim();
+            if (payload === '[DONE]') return;
+            yield JSON.parse(payload) as OpenAIChatChunk;
+        }
+    }
+}
+
+/**
+ * Send a message to the configured endpoint with tool support
+ */
+export async function sendMessage(
+    messages: OpenAIChatMessage[],
+    modelId: string,
+    enabledToolIds: string[] = [],
+    onToken?: (token: string) => void,
+    onToolCall?: (name: string, args: Record<string, unknown>) => Promise<void>,
+    onToolResult?: (name: string, result: unknown) => Promise<void>,
+    signal?: AbortSignal
+): Promise<OpenAIChatResult> {
+    const { systemPrompt: storeSystemPrompt, temperature: storeTemperature } = useSettingsStore.getState();
+
+    const hasSystemPrompt = messages.some(m => m.role === 'system');
+    const fullMessages: OpenAIChatMessage[] = hasSystemPrompt
+        ? messages
+        : [{ role: 'system', content: storeSystemPrompt || SYSTEM_PROMPT }, ...messages];
+
+    return runOpenAIChat({
+        messages: fullMessages,
+        tools: toOpenAITools(enabledToolIds),
+        createStream: async (conversation: OpenAIChatMessage[], tools: OpenAITool[]) => {
+            const response = await postCompletion({
+                model: modelId,
+                messages: conversation,
+                temperature: storeTemperature,
+                tools: tools.length > 0 ? tools : undefined,
+                tool_choice: tools.length > 0 ? 'auto' : undefined,
+                stream: true,
+                // OpenAI and vLLM only report usage in a stream when asked
+                stream_options: { include_usage: true },
+            }, signal);
+            return readEventStream(response);
+        },
+        onToken,
+        onToolCall,
+        onToolResult,
+        signal,
+    });
+}
+
+/**
+ * Generate a single non-streaming completion without tools or history
+ */
+export async function generateText(prompt: string, modelId: string): Promise<string> {
+    const { temperature: storeTemperature } = useSettingsStore.getState();
+
+    const response = await postCompletion({
+        model: modelId,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: storeTemperature,
+    });
+    const completion = await response.json();
+
+    return completion.choices?.[0]?.message?.content ?? '';
+}
+
+/**
+ * List the endpoint's models, plus any the user entered by hand.
+ * Servers without a /models route fall back to the entered list.
+ */
+export async function listModels(): Promise<DiscoveredModel[]> {
+    const { baseUrl, headers } = getEndpoint();
+    const { models: entered } = useApiKeyStore.getState().openAICompatible;
+    let served: string[] = [];
+
+    try {
+        const response = await fetch(`${baseUrl}/models`, { headers });
+        if (response.ok) {
+            const data: { data?: Array<{ id: string }> } = await response.json();
+            served = (data.data ?? []).map(m => m.id);
+        }
+    } catch (error) {
+        console.error('Error listing endpoint models:', error);
+    }
+
+    return [...new Set([...entered, ...served])].map(id => ({
+        id,
+        description: `Served by ${baseUrl}`,
+    }));
+}
+
+/**
+ * Check if an endpoint has been configured
+ */
+export function isOpenAICompatibleConfigured(): boolean {
+    return !!useApiKeyStore.getState().openAICompatible.baseUrl;
+}
@@ -0,0 +1,98 @@
+// Retry a chat turn on the configured fallback model when the selected one cannot answer
+import { getChatProvider } from './index';
+import { useSettingsStore, type AIProvider } from '@/stores/settingsStore';
+import { useUsageStore } from '@/stores/usageStore';
+import { isRateLimitOrUnavailable, withRetry } from '@/utils/rateLimiter';
+import type { FallbackReason, ModelFallback } from '@/types/chat';
+import type { ChatRequest, ChatResult } from './types';
+
+export interface FallbackChatRequest extends ChatRequest {
+    provider: AIProvider;
+    // Called before the fallback model starts, so partial output can be discarded
+    onFallback?: (fallback: ModelFallback) => void;
+}
+
+export interface FallbackChatResult extends ChatResult {
+    provider: AIProvider;
+    modelId: string;
+    fallback?: ModelFallback;
+}
+
+function getFallbackTarget(provider: AIProvider, modelId: string): { provider: AIProvider; modelId: string } | null {
+    const { fallbackEnabled, fallbackProvider, fallbackModelId } = useSettingsStore.getState();
+    if (!fallbackEnabled || !fallbackModelId) return null;
+    if (fallbackProvider === provider && fallbackModelId === modelId) return null;
+    return { provider: fallbackProvider, modelId: fallbackModelId };
+}
+
+function isQuotaExhausted(provider: AIProvider): boolean {
+    return useUsageStore.getState().getQuotaError(provider) !== null;
+}
+
+/**
+ * Why a turn on this model cannot be sent: its daily quota is used up and
+ * there is no fallback model with quota left. Null when it can be sent.
+ */
+export function getQuotaBlock(provider: AIProvider, modelId: string): string | null {
+    const quotaError = useUsageStore.getState().getQuotaError(provider);
+    if (!quotaError) return null;
+
+    const fallback = getFallbackTarget(provider, modelId);
+    if (fallback && !isQuotaExhausted(fallback.provider)) return null;
+    return `${quotaError} Pick another model or enable a fallback model in Settings.`;
+}
+
+function fallbackReason(error: Error): FallbackReason {
+    const message = error.message.toLowerCase();
+    return message.includes('429') || message.includes('resource_exhausted') || message.includes('rate limit')
+        ? 'rate_limited'
+        : 'unavailable';
+}
+
+/**
+ * Send a chat turn on the selected model, retrying transient failures with
+ * backoff and switching to the fallback model if it stays unavailable
+ */
+export async function sendWithFallback({
+    provider,
+    onFallback,
+    ...request
+}: FallbackChatRequest): Promise<FallbackChatResult> {
+    const fallback = getFallbackTarget(provider, request.modelId);
+    let reason: FallbackReason = 'quota_exhausted';
+
+    if (!fallback || !isQuotaExhausted(provider)) {
+        let streamed = false;
+        // Tools may have side effects or cost, so a turn that ran one is never sent again
+        let ranTools = false;
+
+        try {
+            const result = await withRetry(
+                () => getChatProvider(provider).sendMessage({
+                    ...request,
+                    onEvent: (event) => {
+                        if (event.type === 'token') streamed = true;
+                        else ranTools = true;
+                        return request.onEvent?.(event);
+                    },
+                }),
+                {
+                    // Leave room for the fallback instead of waiting out every retry
+                    maxRetries: fallback ? 2 : 3,
+                    // A retry after tokens were shown would repeat them
+                    shouldRetry: (error) => !streamed && !ranTools && !request.signal?.aborted && isRateLimitOrUnavailable(error),
+                }
+            );
+            return { ...result, provider, modelId: request.modelId };
+        } catch (error) {
+            if (!fallback || ranTools || request.signal?.aborted || !(error instanceof Error) || !isRateLimitOrUnavailable(error)) throw error;
+            reason = fallbackReason(error);
+        }
+    }
+
+    const record: ModelFallback = { fromProvider: provider, fromModelId: request.modelId, reason };
+    onFallback?.(record);
+
+    const result = await getChatProvider(fallback.provider).sendMessage({ ...request, modelId: fallback.modelId });
+    return { ...result, provider: fallback.provider, modelId: fallback.modelId, fallback: record };
+}
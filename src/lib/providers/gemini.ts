@@ -0,0 +1,67 @@
+// Gemini adapter for the ChatProvider interface
+import type { Content } from '@google/generative-ai';
+import {
+    createChat,
+    generateContent,
+    isGeminiConfigured,
+    listModels,
+    sendMessage
+} from '@/lib/gemini/client';
+import type { ChatFinishReason, ChatMessage, ChatProvider } from './types';
+
+const FINISH_REASONS: Record<string, ChatFinishReason> = {
+    STOP: 'stop',
+    MAX_TOKENS: 'length',
+    SAFETY: 'content_filter',
+    RECITATION: 'content_filter',
+    BLOCKLIST: 'content_filter',
+    PROHIBITED_CONTENT: 'content_filter',
+    SPII: 'content_filter',
+    MALFORMED_FUNCTION_CALL: 'error',
+};
+
+// Gemini takes the system prompt as a model setting, so system turns are dropped.
+// It also rejects empty text parts.
+export function toGeminiHistory(messages: ChatMessage[]): Content[] {
+    return messages
+        .filter(m => m.role !== 'system' && m.content.trim() !== '')
+        .map(m => ({
+            role: m.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: m.content }],
+        }));
+}
+
+export const geminiProvider: ChatProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    isConfigured: isGeminiConfigured,
+
+    sendMessage: async ({ modelId, messages, enabledToolIds = [], onEvent, signal }) => {
+        const last = messages[messages.length - 1];
+        const chat = createChat(
+            { model: modelId, enabledToolIds },
+            toGeminiHistory(messages.slice(0, -1))
+        );
+
+        const result = await sendMessage(
+            chat,
+            last?.content ?? '',
+            (token) => { onEvent?.({ type: 'token', token }); },
+            async (name, args) => { await onEvent?.({ type: 'tool_call', name, args }); },
+            async (name, result) => { await onEvent?.({ type: 'tool_result', name, result }); },
+            signal
+        );
+
+        return {
+            text: result.text,
+            toolCalls: result.toolCalls ?? [],
+            finishReason: result.finishReason ? FINISH_REASONS[result.finishReason] ?? 'unknown' : 'unknown',
+            rawFinishReason: result.finishReason,
+            usage: result.usage,
+        };
+    },
+
+    generateText: (prompt, modelId) => generateContent(prompt, { model: modelId }),
+
+    listModels,
+};
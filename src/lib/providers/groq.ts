@@ -0,0 +1,34 @@
+// Groq adapter for the ChatProvider interface
+import { generateText, isGroqConfigured, listModels, sendMessage } from '@/lib/groq/client';
+import { OPENAI_FINISH_REASONS } from './openaiChat';
+import type { ChatProvider } from './types';
+
+export const groqProvider: ChatProvider = {
+    id: 'groq',
+    name: 'Groq',
+    isConfigured: isGroqConfigured,
+
+    sendMessage: async ({ modelId, messages, enabledToolIds = [], onEvent, signal }) => {
+        const result = await sendMessage(
+            messages,
+            modelId,
+            enabledToolIds,
+            (token) => { onEvent?.({ type: 'token', token }); },
+            async (name, args) => { await onEvent?.({ type: 'tool_call', name, args }); },
+            async (name, result) => { await onEvent?.({ type: 'tool_result', name, result }); },
+            signal
+        );
+
+        return {
+            text: result.text,
+            toolCalls: result.toolCalls ?? [],
+            finishReason: result.finishReason ? OPENAI_FINISH_REASONS[result.finishReason] ?? 'unknown' : 'unknown',
+            rawFinishReason: result.finishReason ?? undefined,
+            usage: result.usage,
+        };
+    },
+
+    generateText,
+
+    listModels,
+};
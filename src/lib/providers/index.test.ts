@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toChatMessages } from './index';
+import { toGeminiHistory } from './gemini';
+import type { Message } from '@/types/chat';
+
+vi.mock('@/lib/gemini/client', () => ({
+    createChat: vi.fn(),
+    generateContent: vi.fn(),
+    isGeminiConfigured: vi.fn(),
+    listModels: vi.fn(),
+    sendMessage: vi.fn(),
+}));
+vi.mock('./groq', () => ({ groqProvider: {} }));
+vi.mock('./openaiCompatible', () => ({ openAICompatibleProvider: {} }));
+vi.mock('./ollama', () => ({ ollamaProvider: {} }));
+
+let nextId = 0;
+const message = (role: Message['role'], content: string): Message => ({
+    id: String(nextId++),
+    role,
+    content,
+    timestamp: new Date(),
+});
+
+describe('toChatMessages', () => {
+    it('drops tool messages and replies stopped before any text', () => {
+        const history = toChatMessages([
+            message('user', 'What is the weather?'),
+            message('tool', '{"temp": 20}'),
+            message('assistant', ''),
+            message('user', 'Try again'),
+            message('assistant', '  \n'),
+            message('assistant', 'It is sunny.'),
+        ]);
+
+        expect(history).toEqual([
+            { role: 'user', content: 'What is the weather?' },
+            { role: 'user', content: 'Try again' },
+            { role: 'assistant', content: 'It is sunny.' },
+        ]);
+    });
+});
+
+describe('toGeminiHistory', () => {
+    it('maps roles, drops system turns and never sends empty text parts', () => {
+        expect(toGeminiHistory([
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Hi' },
+            { role: 'assistant', content: '' },
+            { role: 'assistant', content: 'Hello' },
+        ])).toEqual([
+            { role: 'user', parts: [{ text: 'Hi' }] },
+            { role: 'model', parts: [{ text: 'Hello' }] },
+        ]);
+    });
+});
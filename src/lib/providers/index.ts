@@ -0,0 +1,43 @@
+// Registry of chat providers keyed by AIProvider
+import { geminiProvider } from './gemini';
+import { groqProvider } from './groq';
+import { openAICompatibleProvider } from './openaiCompatible';
+import { ollamaProvider } from './ollama';
+import type { AIProvider } from '@/stores/settingsStore';
+import type { Message } from '@/types/chat';
+import type { ChatMessage, ChatProvider } from './types';
+
+export type * from './types';
+
+const PROVIDERS: Record<AIProvider, ChatProvider> = {
+    gemini: geminiProvider,
+    groq: groqProvider,
+    'openai-compatible': openAICompatibleProvider,
+    ollama: ollamaProvider,
+};
+
+/**
+ * Look up the adapter for a provider
+ */
+export function getChatProvider(id: AIProvider): ChatProvider {
+    const provider = PROVIDERS[id];
+    if (!provider) {
+        throw new Error(`Unknown AI provider: ${id}`);
+    }
+    return provider;
+}
+
+export function listChatProviders(): ChatProvider[] {
+    return Object.values(PROVIDERS);
+}
+
+/**
+ * Convert stored chat messages into provider-neutral history.
+ * Tool messages are internal to a turn and never replayed, and neither are
+ * empty ones, such as a reply stopped before its first token.
+ */
+export function toChatMessages(messages: Message[]): ChatMessage[] {
+    return messages
+        .filter(m => m.role !== 'tool' && m.content.trim() !== '')
+        .map(m => ({ role: m.role as ChatMessage['role'], content: m.content }));
+}
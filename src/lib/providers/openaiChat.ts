@@ -0,0 +1,198 @@
+// Shared streaming and tool loop for providers that speak the OpenAI chat completions format
+import { executeToolCall, getEnabledFunctionDeclarations } from '@/lib/gemini/tools';
+import { addUsage } from '@/lib/models/usage';
+import type { TokenUsage } from '@/types/chat';
+import type { ChatFinishReason, ChatToolCall } from './types';
+
+export interface OpenAIChatChunk {
+    choices: Array<{
+        delta?: {
+            content?: string | null;
+            tool_calls?: Array<{
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+            }>;
+        };
+        finish_reason?: string | null;
+    }>;
+    // Sent on the final chunk by servers that report usage while streaming
+    usage?: OpenAIUsage | null;
+    // Groq reports it here instead
+    x_groq?: { usage?: OpenAIUsage | null };
+}
+
+export interface OpenAIUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
+
+export interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+export interface OpenAIChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    tool_calls?: OpenAIToolCall[];
+    tool_call_id?: string;
+    name?: string;
+}
+
+export interface OpenAITool {
+    type: 'function';
+    function: { name: string; description: string; parameters: unknown };
+}
+
+export interface OpenAIChatOptions {
+    messages: OpenAIChatMessage[];
+    tools: OpenAITool[];
+    // Open a streamed completion for the given conversation
+    createStream: (messages: OpenAIChatMessage[], tools: OpenAITool[]) => Promise<AsyncIterable<OpenAIChatChunk>>;
+    onToken?: (token: string) => void;
+    onToolCall?: (name: string, args: Record<string, unknown>) => Promise<void>;
+    onToolResult?: (name: string, result: unknown) => Promise<void>;
+    // Aborts the open stream, pending tool calls and follow-up requests
+    signal?: AbortSignal;
+}
+
+export interface OpenAIChatResult {
+    text: string;
+    toolCalls: ChatToolCall[];
+    finishReason: string | null;
+    usage?: TokenUsage;
+}
+
+// Finish reasons used by the OpenAI wire format
+export const OPENAI_FINISH_REASONS: Record<string, ChatFinishReason> = {
+    stop: 'stop',
+    length: 'length',
+    tool_calls: 'tool_calls',
+    function_call: 'tool_calls',
+    content_filter: 'content_filter',
+};
+
+// Guards against a model that keeps calling tools without answering
+const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Map enabled tool ids to OpenAI-style function tools
+ */
+export function toOpenAITools(enabledToolIds: string[]): OpenAITool[] {
+    return getEnabledFunctionDeclarations(enabledToolIds).map(fd => ({
+        type: 'function',
+        function: {
+            name: fd.name,
+            description: fd.description,
+            parameters: fd.parameters,
+        },
+    }));
+}
+
+/**
+ * Read a completion stream, emitting text tokens and assembling tool call deltas
+ */
+async function readStream(
+    stream: AsyncIterable<OpenAIChatChunk>,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+) {
+    let text = '';
+    const toolCalls: OpenAIToolCall[] = [];
+    let finishReason: string | null = null;
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        const choice = chunk.choices[0];
+        const delta = choice?.delta;
+        if (delta?.content) {
+            text += delta.content;
+            if (onToken) onToken(delta.content);
+        }
+        if (delta?.tool_calls) {
+            for (const tc of delta.tool_calls) {
+                if (!toolCalls[tc.index]) {
+                    toolCalls[tc.index] = { id: tc.id ?? '', type: 'function', function: { name: '', arguments: '' } };
+                }
+                if (tc.id) toolCalls[tc.index].id = tc.id;
+                if (tc.function?.name) toolCalls[tc.index].function.name += tc.function.name;
+                if (tc.function?.arguments) toolCalls[tc.index].function.arguments += tc.function.arguments;
+            }
+        }
+        if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+        }
+        const reported = chunk.usage ?? chunk.x_groq?.usage;
+        if (reported) {
+            usage = {
+                inputTokens: reported.prompt_tokens,
+                outputTokens: reported.completion_tokens,
+                totalTokens: reported.total_tokens,
+            };
+        }
+    }
+
+    return { text, toolCalls: toolCalls.filter(Boolean), finishReason, usage };
+}
+
+/**
+ * Stream a chat turn, executing tool calls and feeding their results back
+ * until the model answers in text
+ */
+export async function runOpenAIChat({
+    messages,
+    tools,
+    createStream,
+    onToken,
+    onToolCall,
+    onToolResult,
+    signal,
+}: OpenAIChatOptions): Promise<OpenAIChatResult> {
+    const conversation = [...messages];
+    const executed: ChatToolCall[] = [];
+
+    let turn = await readStream(await createStream(conversation, tools), onToken, signal);
+    let usage = turn.usage;
+
+    for (let round = 0; turn.toolCalls.length > 0 && round < MAX_TOOL_ROUNDS; round++) {
+        conversation.push({
+            role: 'assistant',
+            content: turn.text,
+            tool_calls: turn.toolCalls,
+        });
+
+        for (const tc of turn.toolCalls) {
+            signal?.throwIfAborted();
+            const args = tc.function.arguments ? JSON.parse(tc.function.arguments) : {};
+            if (onToolCall) await onToolCall(tc.function.name, args);
+
+            const result = await executeToolCall(tc.function.name, args, signal);
+            if (onToolResult) await onToolResult(tc.function.name, result);
+            executed.push({ name: tc.function.name, args, result });
+
+            conversation.push({
+                role: 'tool',
+                tool_call_id: tc.id,
+                name: tc.function.name,
+                content: JSON.stringify(result),
+            });
+        }
+
+        // Stop offering tools on the last round so the model has to answer
+        const nextTools = round + 1 < MAX_TOOL_ROUNDS ? tools : [];
+        signal?.throwIfAborted();
+        turn = await readStream(await createStream(conversation, nextTools), onToken, signal);
+        usage = addUsage(usage, turn.usage);
+    }
+
+    return {
+        text: turn.text,
+        toolCalls: executed,
+        finishReason: turn.finishReason,
+        usage,
+    };
+}
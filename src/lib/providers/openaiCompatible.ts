@@ -0,0 +1,39 @@
+// OpenAI-compatible endpoint adapter for the ChatProvider interface
+import {
+    generateText,
+    isOpenAICompatibleConfigured,
+    listModels,
+    sendMessage
+} from '@/lib/openai-compatible/client';
+import { OPENAI_FINISH_REASONS } from './openaiChat';
+import type { ChatProvider } from './types';
+
+export const openAICompatibleProvider: ChatProvider = {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+    isConfigured: isOpenAICompatibleConfigured,
+
+    sendMessage: async ({ modelId, messages, enabledToolIds = [], onEvent, signal }) => {
+        const result = await sendMessage(
+            messages,
+            modelId,
+            enabledToolIds,
+            (token) => { onEvent?.({ type: 'token', token }); },
+            async (name, args) => { await onEvent?.({ type: 'tool_call', name, args }); },
+            async (name, result) => { await onEvent?.({ type: 'tool_result', name, result }); },
+            signal
+        );
+
+        return {
+            text: result.text,
+            toolCalls: result.toolCalls,
+            finishReason: result.finishReason ? OPENAI_FINISH_REASONS[result.finishReason] ?? 'unknown' : 'unknown',
+            rawFinishReason: result.finishReason ?? undefined,
+            usage: result.usage,
+        };
+    },
+
+    generateText,
+
+    listModels,
+};
@@ -0,0 +1,55 @@
+// Provider-neutral chat interface implemented by every AI backend
+import type { AIProvider } from '@/stores/settingsStore';
+import type { TokenUsage } from '@/types/chat';
+import type { DiscoveredModel } from '@/types/models';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatToolCall {
+    name: string;
+    args: Record<string, unknown>;
+    result: unknown;
+}
+
+// Why the model stopped, normalized across providers
+export type ChatFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'error' | 'unknown';
+
+export type ChatStreamEvent =
+    | { type: 'token'; token: string }
+    | { type: 'tool_call'; name: string; args: Record<string, unknown> }
+    | { type: 'tool_result'; name: string; result: unknown };
+
+export interface ChatRequest {
+    modelId: string;
+    // Full conversation, ending with the new user message
+    messages: ChatMessage[];
+    enabledToolIds?: string[];
+    onEvent?: (event: ChatStreamEvent) => void | Promise<void>;
+    // Stops the stream and any tool calls or follow-up requests still pending
+    signal?: AbortSignal;
+}
+
+export interface ChatResult {
+    text: string;
+    toolCalls: ChatToolCall[];
+    finishReason: ChatFinishReason;
+    // The provider's own finish reason, kept for debugging
+    rawFinishReason?: string;
+    // Token counts across all rounds, when the provider reports them
+    usage?: TokenUsage;
+}
+
+export interface ChatProvider {
+    id: AIProvider;
+    name: string;
+    isConfigured: () => boolean;
+    // Stream a chat turn, running any tool calls the model makes
+    sendMessage: (request: ChatRequest) => Promise<ChatResult>;
+    // Single completion without history or tools
+    generateText: (prompt: string, modelId: string) => Promise<string>;
+    // Models the provider currently serves, for the model registry
+    listModels: () => Promise<DiscoveredModel[]>;
+}
@@ -0,0 +1,437 @@
+// Deep research orchestrator: plan → search → analyze → synthesize → critique
+import { searchWeb } from '@/lib/tavily/client';
+import { getChatProvider } from '@/lib/providers';
+import {
+    QUERY_GENERATION_PROMPT,
+    ANALYSIS_PROMPT,
+    SYNTHESIS_PROMPT,
+    CRITIQUE_PROMPT,
+    FINDINGS_FORMAT_PROMPT,
+} from '@/lib/gemini/prompts';
+import { mergeSources, rankSources, selectSourcesForAnalysis } from './sources';
+import { formatFindingsForSynthesis, parseFindings } from './findings';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { generateId } from '@/utils/helpers';
+import type {
+    ResearchCheckpoint,
+    ResearchConfig,
+    ResearchFinding,
+    ResearchPhase,
+    ResearchPlan,
+    ResearchSession,
+    ResearchSource,
+} from '@/types/research';
+
+export const DEFAULT_RESEARCH_CONFIG: Required<Omit<ResearchConfig, 'topic' | 'includeDomains' | 'excludeDomains'>> = {
+    maxIterations: 3,
+    maxSearchesPerIteration: 3,
+    minSources: 8,
+    maxSourcesPerDomain: 2,
+};
+
+export interface RunResearchOptions {
+    userId: string;
+    conversationId: string;
+    config?: Partial<Omit<ResearchConfig, 'topic'>>;
+    signal?: AbortSignal;
+    onUpdate?: (session: ResearchSession) => void;
+    onCheckpoint?: (session: ResearchSession) => void;
+    // Called once the plan is ready; searching starts with whatever plan it resolves to
+    reviewPlan?: (session: ResearchSession, plan: ResearchPlan) => Promise<ResearchPlan>;
+}
+
+export type ResumeResearchOptions = Pick<RunResearchOptions, 'signal' | 'onUpdate' | 'onCheckpoint' | 'reviewPlan'>;
+
+export const CANCELLED_REASON = 'Cancelled by user';
+
+// Share of the progress bar each phase occupies within a single iteration
+const PHASE_PROGRESS: Record<ResearchPhase, number> = {
+    idle: 0,
+    planning: 0,
+    reviewing: 0,
+    searching: 0,
+    analyzing: 0.4,
+    synthesizing: 0.6,
+    critiquing: 0.8,
+    complete: 1,
+    failed: 1,
+};
+
+const PLANNING_SHARE = 5;
+
+/**
+ * Run a single prompt against the currently selected provider
+ */
+async function complete(prompt: string): Promise<string> {
+    const { provider, modelId } = useSettingsStore.getState();
+    return getChatProvider(provider).generateText(prompt, modelId);
+}
+
+/**
+ * Parse the JSON array of queries produced by QUERY_GENERATION_PROMPT,
+ * falling back to one query per line if the model ignored the format
+ */
+export function parseQueries(text: string): string[] {
+    const match = text.match(/\[[\s\S]*\]/);
+    if (match) {
+        try {
+            const parsed = JSON.parse(match[0]);
+            if (Array.isArray(parsed)) {
+                return parsed.filter((q): q is string => typeof q === 'string' && q.trim().length > 0)
+                    .map(q => q.trim());
+            }
+        } catch {
+            // Fall through to line parsing
+        }
+    }
+
+    return text
+        .split('\n')
+        .map(line => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').replace(/^"|",?$/g, '').trim())
+        .filter(line => line.length > 0 && !line.startsWith('```'));
+}
+
+function formatSourcesForAnalysis(sources: ResearchSource[]): string {
+    return sources
+        .map((s, i) => `[${i + 1}] ${s.title} (${s.url})\n${s.content}`)
+        .join('\n\n');
+}
+
+function formatBibliography(sources: ResearchSource[]): string {
+    return sources
+        .map((s, i) => `${i + 1}. [${s.title}](${s.url})`)
+        .join('\n');
+}
+
+function buildSynthesisPrompt(topic: string, findings: ResearchFinding[], sources: ResearchSource[]): string {
+    return `${SYNTHESIS_PROMPT}${formatFindingsForSynthesis(findings, sources)}
+
+Research topic: ${topic}
+
+Each finding lists the numbers of the sources that support it. Cite those sources inline
+right after the claims they support, as markdown links, e.g. [1](url). Present low-confidence
+findings as tentative.
+
+Available sources:
+${sources.map((s, i) => `[${i + 1}] ${s.title} - ${s.url}`).join('\n')}`;
+}
+
+/**
+ * Read the YES/NO verdict CRITIQUE_PROMPT asks the model to give
+ */
+function needsMoreResearch(critique: string): boolean {
+    const questionIndex = critique.lastIndexOf('additional research?');
+    const verdict = critique.slice(Math.max(0, questionIndex)).match(/\b(YES|NO)\b/);
+    return verdict?.[1] === 'YES';
+}
+
+function snapshot(session: ResearchSession): ResearchSession {
+    return {
+        ...session,
+        queries: [...session.queries],
+        sources: [...session.sources],
+        findings: [...session.findings],
+        timings: session.timings?.map(t => ({ ...t })),
+    };
+}
+
+/**
+ * Resolve with the reviewed plan, or reject as soon as the run is cancelled
+ */
+function waitForReview(review: Promise<ResearchPlan>, signal?: AbortSignal): Promise<ResearchPlan> {
+    if (!signal) return review;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(new Error(CANCELLED_REASON));
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        review.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * A session can be resumed if it stopped before completing and has a checkpoint to continue from
+ */
+export function canResumeResearch(session: ResearchSession): boolean {
+    return session.status !== 'complete' && !!session.checkpoint;
+}
+
+/**
+ * Start a new deep research run for a topic and return the finished session
+ */
+export async function runDeepResearch(
+    topic: string,
+    options: RunResearchOptions
+): Promise<ResearchSession> {
+    const config: ResearchConfig = {
+        ...DEFAULT_RESEARCH_CONFIG,
+        ...options.config,
+        topic,
+    };
+
+    const session: ResearchSession = {
+        id: generateId(),
+        userId: options.userId,
+        conversationId: options.conversationId,
+        topic,
+        status: 'idle',
+        config,
+        progress: {
+            phase: 'idle',
+            iteration: 0,
+            maxIterations: config.maxIterations,
+            sourcesFound: 0,
+            findings: [],
+            percentComplete: 0,
+        },
+        queries: [],
+        sources: [],
+        findings: [],
+        checkpoint: {
+            phase: 'idle',
+            iteration: 0,
+            pendingQueries: [],
+            queryCount: 0,
+            sourceCount: 0,
+            findingCount: 0,
+            updatedAt: new Date(),
+        },
+        createdAt: new Date(),
+    };
+
+    return executeResearch(session, options);
+}
+
+/**
+ * Continue a cancelled, failed or interrupted session from its last checkpoint
+ */
+export async function resumeDeepResearch(
+    previous: ResearchSession,
+    options: ResumeResearchOptions = {}
+): Promise<ResearchSession> {
+    if (!previous.checkpoint) {
+        throw new Error('This research session has no checkpoint to resume from');
+    }
+
+    const { checkpoint } = previous;
+
+    // Drop anything gathered after the checkpoint; that phase will run again
+    const session: ResearchSession = {
+        ...previous,
+        queries: previous.queries.slice(0, checkpoint.queryCount),
+        sources: previous.sources.slice(0, checkpoint.sourceCount),
+        findings: previous.findings.slice(0, checkpoint.findingCount),
+        error: undefined,
+        completedAt: undefined,
+    };
+
+    return executeResearch(session, options);
+}
+
+async function executeResearch(
+    session: ResearchSession,
+    options: ResumeResearchOptions
+): Promise<ResearchSession> {
+    const { config } = session;
+    const checkpoint: ResearchCheckpoint = { ...session.checkpoint! };
+
+    // Close the running phase's timing and open one for the next phase
+    const trackTiming = (phase: ResearchPhase, iteration: number) => {
+        const now = new Date();
+        const timings = session.timings ?? [];
+        const last = timings[timings.length - 1];
+        if (last && last.durationMs === undefined) {
+            last.durationMs = now.getTime() - new Date(last.startedAt).getTime();
+        }
+        if (phase !== 'complete' && phase !== 'failed') {
+            timings.push({ phase, iteration, startedAt: now });
+        }
+        session.timings = timings;
+    };
+
+    const update = (phase: ResearchPhase, iteration: number, currentQuery?: string) => {
+        const iterationShare = (100 - PLANNING_SHARE) / config.maxIterations;
+        const percentComplete = iteration === 0 || phase === 'reviewing'
+            ? 0
+            : phase === 'complete'
+                ? 100
+                : Math.min(99, Math.round(PLANNING_SHARE + iterationShare * (iteration - 1 + PHASE_PROGRESS[phase])));
+
+        if (phase !== session.status || iteration !== session.progress.iteration) {
+            trackTiming(phase, iteration);
+        }
+
+        session.status = phase;
+        session.progress = {
+            phase,
+            iteration,
+            maxIterations: config.maxIterations,
+            currentQuery,
+            sourcesFound: session.sources.length,
+            findings: [...session.findings],
+            percentComplete: phase === 'failed' ? session.progress.percentComplete : percentComplete,
+        };
+        options.onUpdate?.(snapshot(session));
+    };
+
+    // Record a finished phase so a later resume can pick up right after it
+    const commit = (phase: ResearchPhase, changes: Partial<ResearchCheckpoint> = {}) => {
+        Object.assign(checkpoint, changes, {
+            phase,
+            queryCount: session.queries.length,
+            sourceCount: session.sources.length,
+            findingCount: session.findings.length,
+            updatedAt: new Date(),
+        });
+        session.checkpoint = { ...checkpoint, pendingQueries: [...checkpoint.pendingQueries] };
+        options.onCheckpoint?.(snapshot(session));
+    };
+
+    const throwIfCancelled = () => {
+        if (options.signal?.aborted) {
+            throw new Error(CANCELLED_REASON);
+        }
+    };
+
+    const finalize = () => {
+        const draft = (checkpoint.draft ?? '').trim();
+        session.sources = rankSources(session.sources);
+        session.finalReport = session.sources.length > 0
+            ? `${draft}\n\n## Sources\n\n${formatBibliography(session.sources)}`
+            : draft;
+        session.completedAt = new Date();
+        update('complete', checkpoint.iteration);
+        commit('complete');
+    };
+
+    try {
+        while (checkpoint.phase !== 'complete') {
+            throwIfCancelled();
+            const { iteration } = checkpoint;
+
+            switch (checkpoint.phase) {
+                case 'idle': {
+                    update('planning', 0);
+                    let planned = parseQueries(await complete(QUERY_GENERATION_PROMPT + session.topic))
+                        .slice(0, config.maxSearchesPerIteration);
+                    if (planned.length === 0) planned = [session.topic];
+                    throwIfCancelled();
+                    commit('planning', { iteration: 1, pendingQueries: planned });
+                    break;
+                }
+
+                case 'planning':
+                case 'critiquing': {
+                    if (checkpoint.phase === 'planning' && !checkpoint.planApproved) {
+                        if (options.reviewPlan) {
+                            update('reviewing', 1);
+                            const plan = await waitForReview(options.reviewPlan(snapshot(session), {
+                                queries: checkpoint.pendingQueries,
+                                includeDomains: config.includeDomains ?? [],
+                                excludeDomains: config.excludeDomains ?? [],
+                            }), options.signal);
+
+                            const queries = plan.queries.map(q => q.trim()).filter(Boolean);
+                            if (queries.length === 0) {
+                                throw new Error('The research plan has no queries');
+                            }
+                            config.includeDomains = plan.includeDomains;
+                            config.excludeDomains = plan.excludeDomains;
+                            commit('planning', { pendingQueries: queries, planApproved: true });
+                        } else {
+                            commit('planning', { planApproved: true });
+                        }
+                        break;
+                    }
+
+                    for (const query of checkpoint.pendingQueries) {
+                        throwIfCancelled();
+                        update('searching', iteration, query);
+                        session.queries.push(query);
+
+                        const response = await searchWeb(query, {
+                            searchDepth: 'advanced',
+                            maxResults: 5,
+                            includeDomains: config.includeDomains,
+                            excludeDomains: config.excludeDomains,
+                            signal: options.signal,
+                        });
+                        session.sources = mergeSources(session.sources, response.results.map(result => ({
+                            url: result.url,
+                            title: result.title,
+                            content: result.content,
+                            score: result.score,
+                            publishedDate: result.published_date,
+                            iteration,
+                            query,
+                        })));
+                    }
+                    throwIfCancelled();
+                    commit('searching', { pendingQueries: [] });
+                    break;
+                }
+
+                case 'searching': {
+                    update('analyzing', iteration);
+                    const newSources = selectSourcesForAnalysis(
+                        session.sources.filter(s => s.iteration === iteration),
+                        config.maxSourcesPerDomain ?? DEFAULT_RESEARCH_CONFIG.maxSourcesPerDomain
+                    );
+                    if (newSources.length > 0) {
+                        const analysis = await complete(ANALYSIS_PROMPT + formatSourcesForAnalysis(newSources) + FINDINGS_FORMAT_PROMPT);
+                        throwIfCancelled();
+                        session.findings.push(...parseFindings(analysis, newSources, iteration));
+                    }
+                    commit('analyzing');
+                    break;
+                }
+
+                case 'analyzing': {
+                    update('synthesizing', iteration);
+                    const draft = await complete(buildSynthesisPrompt(session.topic, session.findings, rankSources(session.sources)));
+                    throwIfCancelled();
+                    commit('synthesizing', { draft });
+                    break;
+                }
+
+                case 'synthesizing': {
+                    // Critique is skipped on the last iteration since nothing would act on it
+                    if (iteration >= config.maxIterations) {
+                        finalize();
+                        break;
+                    }
+
+                    update('critiquing', iteration);
+                    const critique = await complete(CRITIQUE_PROMPT + (checkpoint.draft ?? ''));
+                    const hasEnoughSources = session.sources.length >= config.minSources;
+                    if (!needsMoreResearch(critique) && hasEnoughSources) {
+                        finalize();
+                        break;
+                    }
+
+                    const followUp = parseQueries(
+                        await complete(`${QUERY_GENERATION_PROMPT}${session.topic}\n\nFocus on the gaps identified in this critique:\n${critique}`)
+                    )
+                        .filter(q => !session.queries.includes(q))
+                        .slice(0, config.maxSearchesPerIteration);
+                    throwIfCancelled();
+
+                    if (followUp.length === 0) {
+                        finalize();
+                        break;
+                    }
+                    commit('critiquing', { iteration: iteration + 1, pendingQueries: followUp });
+                    break;
+                }
+
+                default:
+                    throw new Error(`Cannot continue research from phase: ${checkpoint.phase}`);
+            }
+        }
+    } catch (error) {
+        session.error = error instanceof Error ? error.message : 'Research failed';
+        session.completedAt = new Date();
+        update('failed', session.progress.iteration);
+    }
+
+    return snapshot(session);
+}
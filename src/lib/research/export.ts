@@ -0,0 +1,215 @@
+// Export finished research sessions as Markdown, standalone HTML or a JSON bundle
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { MarkdownRenderer } from '@/components/chat/MarkdownRenderer';
+import { extractDomain, formatDuration } from '@/utils/helpers';
+import type { ResearchSession, ResearchSource } from '@/types/research';
+
+export type ResearchExportFormat = 'markdown' | 'html' | 'json';
+
+const EXPORT_FORMATS: Record<ResearchExportFormat, { extension: string; mimeType: string }> = {
+    markdown: { extension: 'md', mimeType: 'text/markdown' },
+    html: { extension: 'html', mimeType: 'text/html' },
+    json: { extension: 'json', mimeType: 'application/json' },
+};
+
+const SOURCES_HEADING = '\n## Sources\n';
+
+// Bumped when the JSON bundle layout changes
+const JSON_BUNDLE_VERSION = 1;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60) || 'research';
+}
+
+function sessionDuration(session: ResearchSession): number | undefined {
+    if (!session.completedAt) return undefined;
+    return new Date(session.completedAt).getTime() - new Date(session.createdAt).getTime();
+}
+
+/**
+ * The report body without the short source list the engine appends
+ */
+function reportBody(session: ResearchSession): string {
+    const report = session.finalReport ?? '';
+    const index = report.lastIndexOf(SOURCES_HEADING);
+    return (index === -1 ? report : report.slice(0, index)).trim();
+}
+
+function formatSourceEntry(source: ResearchSource, index: number): string {
+    const details = [extractDomain(source.url), source.publishedDate].filter(Boolean).join(', ');
+    return `${index + 1}. ${source.title}. ${details}. <${source.url}>`;
+}
+
+function summaryLine(session: ResearchSession): string {
+    const duration = sessionDuration(session);
+    return [
+        `Researched ${new Date(session.createdAt).toLocaleDateString()}`,
+        duration !== undefined ? formatDuration(duration) : null,
+        `${session.queries.length} queries`,
+        `${session.sources.length} sources`,
+    ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Render the report as Markdown with a numbered bibliography
+ */
+export function exportMarkdown(session: ResearchSession): string {
+    const parts = [`# ${session.topic}`, `_${summaryLine(session)}_`, reportBody(session)];
+
+    if (session.sources.length > 0) {
+        parts.push(`## Bibliography\n\n${session.sources.map(formatSourceEntry).join('\n')}`);
+    }
+
+    return `${parts.join('\n\n')}\n`;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Rewrite a KaTeX @font-face rule to carry its woff2 file as a data: URL.
+ * The rule is dropped if the font cannot be fetched.
+ */
+async function embedFontFace(rule: CSSFontFaceRule, baseUrl: string): Promise<string | null> {
+    const woff2 = rule.cssText.match(/url\((['"]?)([^'")]+\.woff2)\1\)/)?.[2];
+    if (!woff2) return null;
+
+    try {
+        const response = await fetch(new URL(woff2, baseUrl));
+        if (!response.ok) return null;
+        const dataUrl = await blobToDataUrl(await response.blob());
+        return rule.cssText.replace(/src:[^;]+;/, `src: url("${dataUrl}") format("woff2");`);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Collect the app's loaded CSS (Tailwind, KaTeX, highlight.js) so the export
+ * looks like the in-app renderer. KaTeX lays out math with its own font
+ * metrics, so its fonts are embedded; other web fonts are left out and the
+ * page falls back to system fonts.
+ */
+async function collectStyles(): Promise<string> {
+    const rules: Array<string | Promise<string | null>> = [];
+
+    for (const sheet of Array.from(document.styleSheets)) {
+        try {
+            for (const rule of Array.from(sheet.cssRules)) {
+                if (rule instanceof CSSFontFaceRule) {
+                    if (rule.style.getPropertyValue('font-family').includes('KaTeX')) {
+                        rules.push(embedFontFace(rule, sheet.href ?? document.baseURI));
+                    }
+                    continue;
+                }
+                rules.push(rule.cssText);
+            }
+        } catch {
+            // Cross-origin sheets (web fonts) cannot be read and are not needed
+        }
+    }
+
+    return (await Promise.all(rules)).filter(Boolean).join('\n');
+}
+
+/**
+ * Render the report to a self-contained HTML page with math and highlighted code.
+ * Nothing is loaded from the network, so it also works when opened from disk.
+ */
+export async function exportHtml(session: ResearchSession): Promise<string> {
+    const body = renderToStaticMarkup(createElement(MarkdownRenderer, { content: reportBody(session) }));
+    const bibliography = session.sources.map(s => `
+            <li>
+                <a href="${escapeHtml(s.url)}">${escapeHtml(s.title)}</a>
+                <span>${escapeHtml([extractDomain(s.url), s.publishedDate].filter(Boolean).join(' · '))}</span>
+            </li>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(session.topic)}</title>
+    <style>
+${await collectStyles()}
+        body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+        code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+        .research-export { max-width: 48rem; margin: 0 auto; padding: 3rem 1.5rem; }
+        .research-export header { margin-bottom: 2rem; }
+        .research-export header h1 { font-size: 1.875rem; font-weight: 700; color: var(--color-dark-100); }
+        .research-export header p, .research-export .bibliography span { font-size: 0.75rem; color: var(--color-dark-500); }
+        .research-export .bibliography { margin-top: 2.5rem; padding-top: 1.5rem; border-top: 1px solid var(--color-dark-700); }
+        .research-export .bibliography ol { list-style: decimal; padding-left: 1.5rem; }
+        .research-export .bibliography li { margin: 0.5rem 0; color: var(--color-dark-200); }
+        .research-export .bibliography a { color: #60a5fa; margin-right: 0.5rem; }
+        .research-export button { display: none; }
+    </style>
+</head>
+<body>
+    <main class="research-export">
+        <header>
+            <h1>${escapeHtml(session.topic)}</h1>
+            <p>${escapeHtml(summaryLine(session))}</p>
+        </header>
+        ${body}
+        ${session.sources.length > 0 ? `<section class="bibliography">
+            <h2 class="text-xl font-semibold text-dark-100 mb-2">Bibliography</h2>
+            <ol>${bibliography}
+            </ol>
+        </section>` : ''}
+    </main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Bundle the whole session (queries, sources, findings, timings) as JSON
+ */
+export function exportJson(session: ResearchSession): string {
+    return JSON.stringify({
+        version: JSON_BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        durationMs: sessionDuration(session),
+        ...session,
+    }, null, 2);
+}
+
+/**
+ * Build the export in the given format and download it as a file
+ */
+export async function downloadResearchExport(session: ResearchSession, format: ResearchExportFormat): Promise<void> {
+    const content = format === 'markdown'
+        ? exportMarkdown(session)
+        : format === 'html' ? await exportHtml(session) : exportJson(session);
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${slugify(session.topic)}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { isWeakFinding, parseFindings } from './findings';
+import type { ResearchSource } from '@/types/research';
+
+const analyzed: ResearchSource[] = [
+    { url: 'https://a.com', title: 'A', content: '', score: 0.9, iteration: 1, query: 'q' },
+    { url: 'https://b.com', title: 'B', content: '', score: 0.3, iteration: 1, query: 'q' },
+];
+
+describe('parseFindings', () => {
+    it('reads the JSON array and maps numbered citations to URLs', () => {
+        const text = 'Here you go:\n```json\n[{"claim": "Sky is blue", "sources": [1, "[2]", 1], "confidence": 0.8}]\n```';
+        expect(parseFindings(text, analyzed, 2)).toEqual([
+            { content: 'Sky is blue', sources: ['https://a.com', 'https://b.com'], confidence: 0.8, iteration: 2 },
+        ]);
+    });
+
+    it('accepts percentages, clamps confidence and drops unknown citations and empty claims', () => {
+        const text = '[{"content": "A", "sources": [7], "confidence": 85}, {"claim": "B", "confidence": -1}, {"claim": "  "}]';
+        expect(parseFindings(text, analyzed, 1)).toEqual([
+            { content: 'A', sources: [], confidence: 0.85, iteration: 1 },
+            { content: 'B', sources: [], confidence: 0, iteration: 1 },
+        ]);
+    });
+
+    it('defaults a missing or unreadable confidence', () => {
+        const [finding] = parseFindings('[{"claim": "A", "confidence": "high"}]', analyzed, 1);
+        expect(finding.confidence).toBe(0.5);
+    });
+
+    it('falls back to one finding per bullet attributed to every analyzed source', () => {
+        const text = '- First point\n2) Second point\n\n```';
+        expect(parseFindings(text, analyzed, 3)).toEqual([
+            { content: 'First point', sources: ['https://a.com', 'https://b.com'], confidence: 0.5, iteration: 3 },
+            { content: 'Second point', sources: ['https://a.com', 'https://b.com'], confidence: 0.5, iteration: 3 },
+        ]);
+    });
+});
+
+describe('isWeakFinding', () => {
+    const finding = (sources: string[]) => ({ content: 'x', sources, confidence: 0.5, iteration: 1 });
+
+    it('flags findings without sources or resting on one low-scoring source', () => {
+        expect(isWeakFinding(finding([]), analyzed)).toBe(true);
+        expect(isWeakFinding(finding(['https://b.com']), analyzed)).toBe(true);
+        expect(isWeakFinding(finding(['https://missing.com']), analyzed)).toBe(true);
+    });
+
+    it('accepts a strong single source or several sources', () => {
+        expect(isWeakFinding(finding(['https://a.com']), analyzed)).toBe(false);
+        expect(isWeakFinding(finding(['https://a.com', 'https://b.com']), analyzed)).toBe(false);
+    });
+});
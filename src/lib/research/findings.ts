@@ -0,0 +1,92 @@
+// Structured research findings: parsing, formatting and reliability checks
+import type { ResearchFinding, ResearchSource } from '@/types/research';
+
+// A finding backed by one source below this credibility is flagged in the UI
+export const WEAK_SOURCE_THRESHOLD = 0.5;
+
+const DEFAULT_CONFIDENCE = 0.5;
+
+interface RawFinding {
+    claim?: unknown;
+    content?: unknown;
+    sources?: unknown;
+    confidence?: unknown;
+}
+
+function clampConfidence(value: unknown): number {
+    const n = typeof value === 'number' ? value : parseFloat(String(value));
+    if (isNaN(n)) return DEFAULT_CONFIDENCE;
+    // Accept percentages as well as 0-1 values
+    return Math.min(1, Math.max(0, n > 1 ? n / 100 : n));
+}
+
+/**
+ * Turn the analysis response into findings, mapping the numbered search results
+ * it cites back to URLs. Falls back to one finding per bullet attributed to all
+ * analyzed sources if the model ignored the JSON format.
+ */
+export function parseFindings(text: string, analyzed: ResearchSource[], iteration: number): ResearchFinding[] {
+    const toUrls = (refs: unknown): string[] => {
+        if (!Array.isArray(refs)) return [];
+        const urls = refs
+            .map(ref => analyzed[Number(String(ref).replace(/\D/g, '')) - 1]?.url)
+            .filter((url): url is string => !!url);
+        return [...new Set(urls)];
+    };
+
+    const match = text.match(/\[[\s\S]*\]/);
+    if (match) {
+        try {
+            const parsed = JSON.parse(match[0]);
+            if (Array.isArray(parsed)) {
+                return (parsed as RawFinding[])
+                    .map(raw => ({
+                        content: String(raw.claim ?? raw.content ?? '').trim(),
+                        sources: toUrls(raw.sources),
+                        confidence: clampConfidence(raw.confidence),
+                        iteration,
+                    }))
+                    .filter(f => f.content.length > 0);
+            }
+        } catch {
+            // Fall through to bullet parsing
+        }
+    }
+
+    return text
+        .split('\n')
+        .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+        .filter(line => line.length > 0 && !line.startsWith('```'))
+        .map(content => ({
+            content,
+            sources: analyzed.map(s => s.url),
+            confidence: DEFAULT_CONFIDENCE,
+            iteration,
+        }));
+}
+
+/**
+ * Format findings for the synthesis prompt, citing sources by their number in `sources`
+ */
+export function formatFindingsForSynthesis(findings: ResearchFinding[], sources: ResearchSource[]): string {
+    return findings
+        .map((f, i) => {
+            const refs = f.sources
+                .map(url => sources.findIndex(s => s.url === url) + 1)
+                .filter(n => n > 0)
+                .map(n => `[${n}]`)
+                .join('');
+            return `F${i + 1} (confidence ${f.confidence.toFixed(2)}; sources ${refs || 'none'}): ${f.content}`;
+        })
+        .join('\n');
+}
+
+/**
+ * A finding is weak when it rests on a single source with a low score
+ */
+export function isWeakFinding(finding: ResearchFinding, sources: ResearchSource[]): boolean {
+    if (finding.sources.length !== 1) return finding.sources.length === 0;
+    const source = sources.find(s => s.url === finding.sources[0]);
+    if (!source) return true;
+    return (source.credibility ?? source.score) < WEAK_SOURCE_THRESHOLD;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, mergeSources, selectSourcesForAnalysis } from './sources';
+import type { ResearchSource } from '@/types/research';
+
+function source(url: string, overrides: Partial<ResearchSource> = {}): ResearchSource {
+    return { url, title: url, content: 'content', score: 0.5, iteration: 1, query: 'q1', ...overrides };
+}
+
+describe('canonicalizeUrl', () => {
+    it('ignores www, case of the host, trailing slashes and tracking parameters', () => {
+        expect(canonicalizeUrl('https://www.Example.com/article/?utm_source=x&fbclid=y'))
+            .toBe(canonicalizeUrl('http://example.com/article'));
+    });
+
+    it('keeps meaningful query parameters in a stable order', () => {
+        expect(canonicalizeUrl('https://example.com/search?b=2&a=1')).toBe('example.com/search?a=1&b=2');
+        expect(canonicalizeUrl('https://example.com/page?id=1')).not.toBe(canonicalizeUrl('https://example.com/page?id=2'));
+    });
+
+    it('falls back to the trimmed, lowercased text for invalid URLs', () => {
+        expect(canonicalizeUrl('  Not A URL ')).toBe('not a url');
+    });
+});
+
+describe('mergeSources', () => {
+    it('appends new sources and records the query that found them', () => {
+        const merged = mergeSources([], [source('https://a.com/1')]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].matchedQueries).toEqual(['q1']);
+    });
+
+    it('merges duplicates in place, keeping the best score and longest content', () => {
+        const existing = [source('https://a.com/1', { score: 0.4 }), source('https://b.com/2')];
+        const merged = mergeSources(existing, [
+            source('https://www.a.com/1/?utm_medium=email', { score: 0.9, content: 'longer content', query: 'q2', publishedDate: '2024-01-01' }),
+        ]);
+
+        expect(merged).toHaveLength(2);
+        expect(merged[0]).toMatchObject({
+            url: 'https://a.com/1',
+            score: 0.9,
+            content: 'longer content',
+            publishedDate: '2024-01-01',
+            matchedQueries: ['q1', 'q2'],
+        });
+        expect(merged[1].url).toBe('https://b.com/2');
+    });
+
+    it('does not count the same query twice', () => {
+        const merged = mergeSources([source('https://a.com/1')], [source('https://a.com/1')]);
+        expect(merged[0].matchedQueries).toEqual(['q1']);
+    });
+
+    it('does not mutate the existing list', () => {
+        const existing = [source('https://a.com/1')];
+        mergeSources(existing, [source('https://a.com/1', { score: 1 })]);
+        expect(existing[0].score).toBe(0.5);
+    });
+});
+
+describe('selectSourcesForAnalysis', () => {
+    it('ranks by credibility and caps sources per domain', () => {
+        const selected = selectSourcesForAnalysis([
+            source('https://a.com/1', { score: 0.9 }),
+            source('https://a.com/2', { score: 0.8 }),
+            source('https://a.com/3', { score: 0.7 }),
+            source('https://b.com/1', { score: 0.2 }),
+        ], 2);
+
+        expect(selected.map(s => s.url)).toEqual(['https://a.com/1', 'https://a.com/2', 'https://b.com/1']);
+        selected.forEach(s => expect(s.credibility).toBeGreaterThan(0));
+    });
+
+    it('prefers recent sources when relevance is equal', () => {
+        const now = new Date().toISOString();
+        const selected = selectSourcesForAnalysis([
+            source('https://a.com/old', { publishedDate: '2000-01-01' }),
+            source('https://b.com/new', { publishedDate: now }),
+        ], 5);
+
+        expect(selected[0].url).toBe('https://b.com/new');
+    });
+});
@@ -0,0 +1,130 @@
+// Source manager for deep research: dedupe, merge, score and cap sources
+import { extractDomain } from '@/utils/helpers';
+import type { ResearchSource } from '@/types/research';
+
+// Query parameters that only track the click and never change the page
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src|igshid)$/i;
+
+// Weights of the credibility score components
+const SCORE_WEIGHTS = {
+    relevance: 0.6,
+    recency: 0.25,
+    diversity: 0.15,
+};
+
+// Small bonus per extra query that surfaced the same source
+const CORROBORATION_BONUS = 0.05;
+const MAX_CORROBORATION_BONUS = 0.15;
+
+// Age at which a dated source counts half as recent as a new one
+const RECENCY_HALF_LIFE_DAYS = 365;
+const UNKNOWN_RECENCY = 0.5;
+
+/**
+ * Normalize a URL so the same page reached through different links compares equal
+ */
+export function canonicalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        const params = [...parsed.searchParams.entries()]
+            .filter(([key]) => !TRACKING_PARAMS.test(key))
+            .sort(([a], [b]) => a.localeCompare(b));
+        const search = new URLSearchParams(params).toString();
+        const path = parsed.pathname.replace(/\/+$/, '');
+
+        return `${extractDomain(url).toLowerCase()}${path}${search ? `?${search}` : ''}`;
+    } catch {
+        return url.trim().toLowerCase();
+    }
+}
+
+/**
+ * Add new search hits to a source list, merging duplicates by canonical URL.
+ * Existing entries keep their position so checkpoint counts stay valid.
+ */
+export function mergeSources(existing: ResearchSource[], incoming: ResearchSource[]): ResearchSource[] {
+    const merged = [...existing];
+    const indexByUrl = new Map(merged.map((s, i) => [canonicalizeUrl(s.url), i]));
+
+    for (const source of incoming) {
+        const key = canonicalizeUrl(source.url);
+        const index = indexByUrl.get(key);
+
+        if (index === undefined) {
+            indexByUrl.set(key, merged.length);
+            merged.push({ ...source, matchedQueries: [source.query] });
+            continue;
+        }
+
+        const current = merged[index];
+        const matchedQueries = current.matchedQueries ?? [current.query];
+        merged[index] = {
+            ...current,
+            score: Math.max(current.score, source.score),
+            content: source.content.length > current.content.length ? source.content : current.content,
+            publishedDate: current.publishedDate ?? source.publishedDate,
+            matchedQueries: matchedQueries.includes(source.query)
+                ? matchedQueries
+                : [...matchedQueries, source.query],
+        };
+    }
+
+    return merged;
+}
+
+function recencyScore(publishedDate: string | undefined, now: number): number {
+    if (!publishedDate) return UNKNOWN_RECENCY;
+    const published = new Date(publishedDate).getTime();
+    if (isNaN(published)) return UNKNOWN_RECENCY;
+
+    const ageDays = Math.max(0, (now - published) / 86400000);
+    return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Compute a credibility score for each source from its Tavily score, recency
+ * and how many other sources share its domain
+ */
+export function scoreSources(sources: ResearchSource[], now = Date.now()): ResearchSource[] {
+    const domainCounts = new Map<string, number>();
+    for (const s of sources) {
+        const domain = extractDomain(s.url);
+        domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+    }
+
+    return sources.map(s => {
+        const diversity = 1 / (domainCounts.get(extractDomain(s.url)) ?? 1);
+        const corroboration = Math.min(
+            MAX_CORROBORATION_BONUS,
+            ((s.matchedQueries?.length ?? 1) - 1) * CORROBORATION_BONUS
+        );
+        const credibility = SCORE_WEIGHTS.relevance * s.score
+            + SCORE_WEIGHTS.recency * recencyScore(s.publishedDate, now)
+            + SCORE_WEIGHTS.diversity * diversity
+            + corroboration;
+
+        return { ...s, credibility: Math.min(1, Math.round(credibility * 1000) / 1000) };
+    });
+}
+
+/**
+ * Score and sort sources from most to least credible
+ */
+export function rankSources(sources: ResearchSource[]): ResearchSource[] {
+    return scoreSources(sources).sort((a, b) => (b.credibility ?? 0) - (a.credibility ?? 0));
+}
+
+/**
+ * Pick the best sources while taking at most `maxPerDomain` from any one domain
+ */
+export function selectSourcesForAnalysis(sources: ResearchSource[], maxPerDomain: number): ResearchSource[] {
+    const perDomain = new Map<string, number>();
+
+    return rankSources(sources).filter(s => {
+        const domain = extractDomain(s.url);
+        const count = perDomain.get(domain) ?? 0;
+        if (count >= maxPerDomain) return false;
+        perDomain.set(domain, count + 1);
+        return true;
+    });
+}
@@ -24,9 +24,11 @@ export interface TavilySearchOptions {
     includeRawContent?: boolean;
     includeDomains?: string[];
     excludeDomains?: string[];
+    signal?: AbortSignal;
 }
 
 import { useApiKeyStore } from '@/stores/apiKeyStore';
+import { useUsageStore } from '@/stores/usageStore';
 
 /**
  * Search the web using Tavily API
@@ -43,6 +45,12 @@ export async function searchWeb(
         throw new Error('Tavily API key not configured. Please add it in Settings.');
     }
 
+    const usage = useUsageStore.getState();
+    if (!usage.canMakeTavilyCall()) {
+        const { tavily } = usage.getUsageStats();
+        throw new Error(`Monthly web search limit reached (${tavily.limit} searches). It resets at the start of next month.`);
+    }
+
     const {
         searchDepth = 'basic',
         maxResults = 5,
@@ -50,8 +58,10 @@ export async function searchWeb(
         includeRawContent = false,
         includeDomains = [],
         excludeDomains = [],
+        signal,
     } = options;
 
+    usage.incrementTavily();
     const response = await fetch(TAVILY_API_URL, {
         method: 'POST',
         headers: {
@@ -67,6 +77,7 @@ export async function searchWeb(
             include_domains: includeDomains.length > 0 ? includeDomains : undefined,
             exclude_domains: excludeDomains.length > 0 ? excludeDomains : undefined,
         }),
+        signal,
     });
 
     if (!response.ok) {
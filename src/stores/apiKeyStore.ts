@@ -1,8 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
+import { doc, setDoc, onSnapshot } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
+import { KEY_PROVIDERS, getEffectiveKey, validateKey, type KeyCheckResult } from '@/lib/keys/validation';
+import { createMigrations } from '@/lib/migrations';
 import { useAuthStore } from './authStore';
+import { decryptText, deriveKey, encryptText, generateSalt, PBKDF2_ITERATIONS, type EncryptedValue } from '@/utils/crypto';
+import { sanitizeForFirestore } from '@/utils/helpers';
 
 export interface APIKeys {
     gemini?: string;
@@ -11,26 +15,169 @@ export interface APIKeys {
     groq?: string;
 }
 
+// A user-run endpoint that speaks the OpenAI chat completions API
+export interface OpenAICompatibleConfig {
+    baseUrl: string;
+    apiKey?: string;
+    models: string[];
+}
+
+// Provider keys and the custom endpoint's key, encrypted with a key derived from the user's passphrase
+export interface KeyVault {
+    salt: string;
+    iterations: number;
+    keys: EncryptedValue;
+}
+
+export const LOCK_TIMEOUT_OPTIONS = [5, 15, 30, 60];
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+// A local Ollama server; its models are discovered by the model registry
+export interface OllamaConfig {
+    baseUrl: string;
+}
+
+// What the vault seals
+interface VaultContents {
+    keys: APIKeys;
+    openAICompatibleKey?: string;
+}
+
 interface APIKeyState {
+    // Decrypted keys, including openAICompatible.apiKey, live here only while the vault is unlocked
     keys: APIKeys;
+    openAICompatible: OpenAICompatibleConfig;
+    ollama: OllamaConfig;
+    vault: KeyVault | null;
+    unlocked: boolean;
+    lockTimeoutMinutes: number;
+    // Result of the last health check of each key
+    keyStatus: Partial<Record<keyof APIKeys, KeyCheckResult>>;
+    checkingKeys: (keyof APIKeys)[];
     loading: boolean;
     error: string | null;
 
     setKey: (provider: keyof APIKeys, key: string) => void;
     removeKey: (provider: keyof APIKeys) => void;
-    fetchKeys: () => Promise<void>;
+    setOpenAICompatible: (config: Partial<OpenAICompatibleConfig>) => void;
+    setOllamaBaseUrl: (baseUrl: string) => void;
+    // Apply key and endpoint changes made on other devices; onChange runs after each update
+    subscribeKeys: (onChange?: () => void) => () => void;
     syncToFirestore: () => Promise<void>;
     clearKeys: () => void;
+    // Validate the keys in use (the user's or the built-in ones); all of them by default
+    checkKeys: (providers?: (keyof APIKeys)[]) => Promise<void>;
+
+    // Passphrase encryption
+    enableEncryption: (passphrase: string) => Promise<void>;
+    disableEncryption: () => void;
+    unlock: (passphrase: string) => Promise<boolean>;
+    lock: () => void;
+    setLockTimeout: (minutes: number) => void;
+    isLocked: () => boolean;
+}
+
+// Key derived from the passphrase; never persisted, dropped on lock
+let vaultKey: CryptoKey | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+// Key each running check was started with; a result for an older key is discarded
+const checkedKeys: Partial<Record<keyof APIKeys, string>> = {};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+function resetIdleTimer() {
+    if (idleTimer) clearTimeout(idleTimer);
+    const { lockTimeoutMinutes, lock } = useApiKeyStore.getState();
+    idleTimer = setTimeout(lock, lockTimeoutMinutes * 60 * 1000);
+}
+
+function startIdleLock() {
+    resetIdleTimer();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetIdleTimer, { passive: true }));
+}
+
+function stopIdleLock() {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetIdleTimer));
+}
+
+function withoutApiKey(config: OpenAICompatibleConfig): OpenAICompatibleConfig {
+    return { ...config, apiKey: undefined };
 }
 
+function sealVault(key: CryptoKey, state: Pick<APIKeyState, 'keys' | 'openAICompatible'>): Promise<EncryptedValue> {
+    const contents: VaultContents = { keys: state.keys, openAICompatibleKey: state.openAICompatible.apiKey };
+    return encryptText(key, JSON.stringify(contents));
+}
+
+async function openVault(key: CryptoKey, vault: KeyVault): Promise<VaultContents> {
+    const contents = JSON.parse(await decryptText(key, vault.keys));
+    if ('keys' in contents) return contents as VaultContents;
+
+    // Vaults sealed before the endpoint key moved in hold the provider keys alone,
+    // and the endpoint key is still the plaintext one loaded from storage
+    return { keys: contents as APIKeys, openAICompatibleKey: useApiKeyStore.getState().openAICompatible.apiKey };
+}
+
+function applyVaultContents({ keys, openAICompatibleKey }: VaultContents) {
+    useApiKeyStore.setState((state) => ({
+        keys,
+        openAICompatible: { ...state.openAICompatible, apiKey: openAICompatibleKey },
+    }));
+}
+
+// A vault written by another device replaces ours; keep it open if our key still fits
+async function applyRemoteVault(vault: KeyVault) {
+    useApiKeyStore.setState({ vault });
+    if (!vaultKey) {
+        useApiKeyStore.setState((state) => ({
+            keys: {},
+            openAICompatible: withoutApiKey(state.openAICompatible),
+            unlocked: false,
+        }));
+        return;
+    }
+
+    try {
+        applyVaultContents(await openVault(vaultKey, vault));
+    } catch {
+        // The passphrase was changed elsewhere
+        useApiKeyStore.getState().lock();
+    }
+}
+
+type PersistedKeyState = Pick<APIKeyState, 'keys' | 'openAICompatible' | 'ollama' | 'vault' | 'lockTimeoutMinutes'>;
+
+const apiKeyMigrations = createMigrations<PersistedKeyState>([
+    // v1: blank keys used to be saved as empty strings
+    (state) => ({
+        ...state,
+        keys: Object.fromEntries(
+            Object.entries((state.keys ?? {}) as Record<string, unknown>)
+                .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '')
+                .map(([provider, key]) => [provider, key.trim()])
+        ),
+    }),
+]);
+
 export const useApiKeyStore = create<APIKeyState>()(
     persist(
         (set, get) => ({
             keys: {},
+            openAICompatible: { baseUrl: '', models: [] },
+            ollama: { baseUrl: DEFAULT_OLLAMA_URL },
+            vault: null,
+            unlocked: false,
+            lockTimeoutMinutes: 15,
+            keyStatus: {},
+            checkingKeys: [],
             loading: false,
             error: null,
 
             setKey: (provider, key) => {
+                if (get().isLocked()) return;
                 set((state) => ({
                     keys: { ...state.keys, [provider]: key }
                 }));
@@ -38,6 +185,7 @@ export const useApiKeyStore = create<APIKeyState>()(
             },
 
             removeKey: (provider) => {
+                if (get().isLocked()) return;
                 set((state) => {
                     const newKeys = { ...state.keys };
                     delete newKeys[provider];
@@ -46,42 +194,212 @@ export const useApiKeyStore = create<APIKeyState>()(
                 get().syncToFirestore();
             },
 
-            fetchKeys: async () => {
+            setOpenAICompatible: (config) => {
+                // The endpoint key is sealed in the vault, which cannot be updated while locked
+                if (get().isLocked()) config = { ...config, apiKey: get().openAICompatible.apiKey };
+                set((state) => ({
+                    openAICompatible: { ...state.openAICompatible, ...config }
+                }));
+                get().syncToFirestore();
+            },
+
+            setOllamaBaseUrl: (baseUrl) => {
+                set((state) => ({
+                    ollama: { ...state.ollama, baseUrl: baseUrl || DEFAULT_OLLAMA_URL }
+                }));
+                get().syncToFirestore();
+            },
+
+            subscribeKeys: (onChange) => {
                 const { user } = useAuthStore.getState();
-                if (!user) return;
+                if (!user) return () => {};
 
                 set({ loading: true, error: null });
-                try {
-                    const docRef = doc(db, `users/${user.uid}/config`, 'apiKeys');
-                    const docSnap = await getDoc(docRef);
-                    if (docSnap.exists()) {
-                        set({ keys: docSnap.data() as APIKeys });
-                    }
-                } catch (error: unknown) {
-                    console.error('Error fetching API keys:', error);
-                    set({ error: 'Failed to fetch API keys' });
-                } finally {
-                    set({ loading: false });
-                }
+                const onError = (error: unknown) => {
+                    console.error('Error listening to API keys:', error);
+                    set({ error: 'Failed to fetch API keys', loading: false });
+                };
+
+                const unsubscribers = [
+                    onSnapshot(doc(db, `users/${user.uid}/config`, 'apiKeys'), async (docSnap) => {
+                        const data = docSnap.data();
+                        if (data?.vault) {
+                            await applyRemoteVault(data.vault as KeyVault);
+                        } else if (data) {
+                            if (get().vault) get().lock();
+                            set({ keys: data as APIKeys, vault: null });
+                        }
+                        set({ loading: false });
+                        onChange?.();
+                    }, onError),
+                    onSnapshot(doc(db, `users/${user.uid}/config`, 'openAICompatible'), (docSnap) => {
+                        if (docSnap.exists()) {
+                            const { vault, openAICompatible } = get();
+                            set({
+                                openAICompatible: {
+                                    baseUrl: '',
+                                    models: [],
+                                    ...docSnap.data() as Partial<OpenAICompatibleConfig>,
+                                    // With a vault the key comes from it, never from this document
+                                    ...(vault && { apiKey: openAICompatible.apiKey }),
+                                },
+                            });
+                            onChange?.();
+                        }
+                    }, onError),
+                    onSnapshot(doc(db, `users/${user.uid}/config`, 'ollama'), (docSnap) => {
+                        if (docSnap.exists()) {
+                            set({ ollama: { baseUrl: docSnap.data().baseUrl || DEFAULT_OLLAMA_URL } });
+                            onChange?.();
+                        }
+                    }, onError),
+                ];
+
+                return () => unsubscribers.forEach(unsubscribe => unsubscribe());
             },
 
             syncToFirestore: async () => {
                 const { user } = useAuthStore.getState();
-                if (!user) return;
 
-                const { keys } = get();
                 try {
+                    // Re-seal first so neither copy ever holds the plaintext keys
+                    const current = get();
+                    if (current.vault && vaultKey) {
+                        set({ vault: { ...current.vault, keys: await sealVault(vaultKey, current) } });
+                    }
+                    if (!user) return;
+
+                    const { keys, vault, openAICompatible, ollama } = get();
                     const docRef = doc(db, `users/${user.uid}/config`, 'apiKeys');
-                    await setDoc(docRef, keys);
+                    await setDoc(docRef, vault ? { vault } : keys);
+                    await setDoc(
+                        doc(db, `users/${user.uid}/config`, 'openAICompatible'),
+                        sanitizeForFirestore(vault ? withoutApiKey(openAICompatible) : openAICompatible)
+                    );
+                    await setDoc(doc(db, `users/${user.uid}/config`, 'ollama'), { baseUrl: ollama.baseUrl });
                 } catch (error: unknown) {
                     console.error('Error syncing API keys:', error);
                 }
             },
 
-            clearKeys: () => set({ keys: {} }),
+            clearKeys: () => {
+                vaultKey = null;
+                stopIdleLock();
+                set({
+                    keys: {},
+                    openAICompatible: { baseUrl: '', models: [] },
+                    ollama: { baseUrl: DEFAULT_OLLAMA_URL },
+                    vault: null,
+                    unlocked: false,
+                    keyStatus: {},
+                });
+            },
+
+            checkKeys: async (providers = KEY_PROVIDERS) => {
+                if (get().isLocked()) return;
+
+                const { keys } = get();
+                // A running check for the same key is left to finish; a changed key is checked again
+                const targets = providers.filter(p => !get().checkingKeys.includes(p) || checkedKeys[p] !== getEffectiveKey(p, keys));
+                const withKey = targets.filter(p => getEffectiveKey(p, keys));
+                targets.forEach(p => {
+                    const key = getEffectiveKey(p, keys);
+                    if (key) checkedKeys[p] = key;
+                    else delete checkedKeys[p];
+                });
+                set((state) => {
+                    const keyStatus = { ...state.keyStatus };
+                    targets.filter(p => !withKey.includes(p)).forEach(p => delete keyStatus[p]);
+                    const checkingKeys = state.checkingKeys.filter(p => !targets.includes(p));
+                    return { keyStatus, checkingKeys: [...checkingKeys, ...withKey] };
+                });
+
+                await Promise.all(withKey.map(async (provider) => {
+                    const key = getEffectiveKey(provider, keys)!;
+                    const result = await validateKey(provider, key);
+                    if (checkedKeys[provider] !== key) return;
+                    delete checkedKeys[provider];
+                    // The key may also have been cleared or locked away meanwhile
+                    const stillCurrent = getEffectiveKey(provider, get().keys) === key;
+                    set((state) => ({
+                        ...(stillCurrent && { keyStatus: { ...state.keyStatus, [provider]: result } }),
+                        checkingKeys: state.checkingKeys.filter(p => p !== provider),
+                    }));
+                }));
+            },
+
+            enableEncryption: async (passphrase) => {
+                const salt = generateSalt();
+                const key = await deriveKey(passphrase, salt);
+                const vault: KeyVault = {
+                    salt,
+                    iterations: PBKDF2_ITERATIONS,
+                    keys: await sealVault(key, get()),
+                };
+
+                vaultKey = key;
+                set({ vault, unlocked: true });
+                startIdleLock();
+                await get().syncToFirestore();
+            },
+
+            disableEncryption: () => {
+                if (get().isLocked()) return;
+                vaultKey = null;
+                stopIdleLock();
+                set({ vault: null, unlocked: false });
+                get().syncToFirestore();
+            },
+
+            unlock: async (passphrase) => {
+                const { vault } = get();
+                if (!vault) return true;
+
+                try {
+                    const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+                    const contents = await openVault(key, vault);
+                    vaultKey = key;
+                    applyVaultContents(contents);
+                    set({ unlocked: true });
+                    startIdleLock();
+                    return true;
+                } catch {
+                    return false;
+                }
+            },
+
+            lock: () => {
+                if (!get().vault) return;
+                vaultKey = null;
+                stopIdleLock();
+                set((state) => ({
+                    keys: {},
+                    openAICompatible: withoutApiKey(state.openAICompatible),
+                    unlocked: false,
+                }));
+            },
+
+            setLockTimeout: (lockTimeoutMinutes) => {
+                set({ lockTimeoutMinutes });
+                if (get().unlocked) resetIdleTimer();
+            },
+
+            isLocked: () => {
+                const { vault, unlocked } = get();
+                return !!vault && !unlocked;
+            },
         }),
         {
             name: 'api-keys-storage',
+            ...apiKeyMigrations,
+            // With a vault only the ciphertext is stored; unlocking happens again each session
+            partialize: (state): PersistedKeyState => ({
+                keys: state.vault ? {} : state.keys,
+                openAICompatible: state.vault ? withoutApiKey(state.openAICompatible) : state.openAICompatible,
+                ollama: state.ollama,
+                vault: state.vault,
+                lockTimeoutMinutes: state.lockTimeoutMinutes,
+            }),
         }
     )
 );
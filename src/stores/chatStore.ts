@@ -1,26 +1,39 @@
-import {
-    doc,
-    setDoc,
-    deleteDoc,
-    collection,
-    query,
-    getDocs,
-    orderBy
-} from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import { db } from '@/lib/firebase/config';
+import {
+    CONVERSATION_PAGE_SIZE,
+    conversationsPath,
+    messagesPath,
+    subscribeToConversations,
+    subscribeToMessages,
+    toConversationDoc
+} from '@/lib/firebase/conversations';
+import { enqueueMutations, processOutbox } from '@/lib/firebase/outbox';
+import { createMigrations } from '@/lib/migrations';
+import { addUsage } from '@/lib/models/usage';
+import {
+    cancelConversationSave,
+    hasPendingSave,
+    saveConversation,
+    saveMessage
+} from '@/lib/firebase/writeBuffer';
 import { useAuthStore } from './authStore';
-import type { Conversation, Message } from '../types/chat';
+import type { Conversation, Message, TokenUsage } from '../types/chat';
+import { createChatStorage, loadStoredMessages } from '../utils/chatStorage';
 import { generateId, sanitizeForFirestore } from '../utils/helpers';
 
+// Streamed tokens update the store constantly, so local saves are batched
+const LOCAL_SAVE_DELAY = 1000;
+
 interface ChatState {
     // State
     conversations: Conversation[];
     activeConversationId: string | null;
     isGenerating: boolean;
     loading: boolean;
+    hasMoreConversations: boolean;
     error: string | null;
 
     // Actions
@@ -33,48 +46,104 @@ interface ChatState {
     addMessage: (conversationId: string, message: Omit<Message, 'id' | 'timestamp'>) => Message;
     updateMessage: (conversationId: string, messageId: string, updates: Partial<Message>) => void;
     deleteMessage: (conversationId: string, messageId: string) => void;
+    // Add tokens spent for a conversation that no message keeps, like discarded compare answers
+    recordUsage: (conversationId: string, usage: TokenUsage) => void;
 
     setGenerating: (generating: boolean) => void;
     setError: (error: string | null) => void;
     clearError: () => void;
-    fetchConversations: () => Promise<void>;
+    // Keep conversations and the active conversation's messages in sync with Firestore
+    subscribeConversations: () => () => void;
+    loadMoreConversations: () => void;
+    // Read a conversation's messages from local storage if they are not loaded yet
+    loadMessages: (conversationId: string) => Promise<void>;
 
     // Getters
     getActiveConversation: () => Conversation | undefined;
 }
 
-// Utility to convert dates safely for Firestore/JSON/LocalStorage
-const serializeDate = (date: any): string => {
-    try {
-        if (!date) return new Date().toISOString();
-        const d = date instanceof Date ? date : new Date(date);
-        if (isNaN(d.getTime())) {
-            console.warn('Invalid date detected during serialization:', date);
-            return new Date().toISOString();
-        }
-        return d.toISOString();
-    } catch (err) {
-        console.error('Serialization error:', err);
-        return new Date().toISOString();
-    }
-};
-
-const parseDate = (date: any): Date => {
-    try {
-        if (!date) return new Date();
-        // Handle Firestore Timestamp
-        if (typeof date.toDate === 'function') return date.toDate();
-
-        // Handle empty object {} case which causes RangeError in new Date()
-        if (typeof date === 'object' && Object.keys(date).length === 0) return new Date();
-
-        const d = new Date(date);
-        if (isNaN(d.getTime())) return new Date();
-        return d;
-    } catch (err) {
-        return new Date();
-    }
-};
+// Runs on conversation headers only; message bodies are loaded later
+const chatMigrations = createMigrations<Pick<ChatState, 'conversations' | 'activeConversationId'>>([
+    // v1: headers saved before tools and deep research were tracked
+    (state) => ({
+        ...state,
+        conversations: (Array.isArray(state.conversations) ? state.conversations as Conversation[] : []).map(c => ({
+            ...c,
+            toolsUsed: c.toolsUsed ?? [],
+            isDeepResearch: c.isDeepResearch ?? false,
+        })),
+    }),
+]);
+
+// Live Firestore listeners for the signed-in user
+let conversationLimit = CONVERSATION_PAGE_SIZE;
+let unsubscribeConversations: Unsubscribe | null = null;
+let unsubscribeMessages: Unsubscribe | null = null;
+
+// A message still streaming or waiting in the write buffer is newer than any snapshot
+const isLocallyNewer = (conversationId: string, message: Message) =>
+    !!message.metadata?.isStreaming || hasPendingSave(conversationId, message.id);
+
+function mergeMessages(conversationId: string, local: Message[], remote: Message[]): Message[] {
+    const localById = new Map(local.map(m => [m.id, m]));
+    const remoteIds = new Set(remote.map(m => m.id));
+
+    const merged = remote.map(m => {
+        const mine = localById.get(m.id);
+        if (!mine) return m;
+        return isLocallyNewer(conversationId, mine) || (mine.version ?? 0) > (m.version ?? 0) ? mine : m;
+    });
+    const unsaved = local.filter(m => !remoteIds.has(m.id) && isLocallyNewer(conversationId, m));
+
+    return [...merged, ...unsaved].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+function mergeConversations(local: Conversation[], remote: Conversation[]): Conversation[] {
+    const localById = new Map(local.map(c => [c.id, c]));
+    const remoteIds = new Set(remote.map(c => c.id));
+
+    const merged = remote.map(c => {
+        const mine = localById.get(c.id);
+        if (!mine) return c;
+        // Messages come from their own listener; only legacy documents carry them here
+        const header = hasPendingSave(c.id) ? mine : c;
+        return { ...header, messages: c.messages.length > 0 ? c.messages : mine.messages };
+    });
+    const unsaved = local.filter(c => !remoteIds.has(c.id) && hasPendingSave(c.id));
+
+    return [...unsaved, ...merged];
+}
+
+function listenToConversations(userId: string) {
+    unsubscribeConversations?.();
+    unsubscribeConversations = subscribeToConversations(userId, conversationLimit, (remote, hasMore) => {
+        const conversations = mergeConversations(useChatStore.getState().conversations, remote);
+        useChatStore.setState((state) => {
+            state.conversations = conversations;
+            state.hasMoreConversations = hasMore;
+            state.loading = false;
+        });
+    });
+}
+
+function listenToMessages(conversationId: string | null) {
+    unsubscribeMessages?.();
+    unsubscribeMessages = null;
+
+    const { user } = useAuthStore.getState();
+    if (!user || !conversationId || !unsubscribeConversations) return;
+
+    unsubscribeMessages = subscribeToMessages(user.uid, conversationId, (remote) => {
+        const conversation = useChatStore.getState().conversations.find(c => c.id === conversationId);
+        if (!conversation) return;
+
+        const messages = mergeMessages(conversationId, conversation.messages, remote);
+        useChatStore.setState((state) => {
+            const conv = state.conversations.find(c => c.id === conversationId);
+            if (conv) conv.messages = messages;
+        });
+    });
+}
 
 export const useChatStore = create<ChatState>()(
     persist(
@@ -83,6 +152,7 @@ export const useChatStore = create<ChatState>()(
             activeConversationId: null,
             isGenerating: false,
             loading: false,
+            hasMoreConversations: false,
             error: null,
 
             createConversation: (title) => {
@@ -106,15 +176,14 @@ export const useChatStore = create<ChatState>()(
                     state.conversations.unshift(newConversation);
                     state.activeConversationId = id;
                 });
+                listenToMessages(id);
 
                 if (user) {
-                    const { userId, ...rest } = newConversation;
-                    setDoc(doc(db, `users/${user.uid}/conversations`, id), sanitizeForFirestore({
-                        ...rest,
-                        userId: user.uid,
-                        createdAt: now,
-                        updatedAt: now,
-                    })).catch(console.error);
+                    enqueueMutations(user.uid, [{
+                        type: 'set',
+                        path: `${conversationsPath(user.uid)}/${id}`,
+                        data: toConversationDoc({ ...newConversation, userId: user.uid }),
+                    }]);
                 }
 
                 return id;
@@ -122,6 +191,7 @@ export const useChatStore = create<ChatState>()(
 
             deleteConversation: (id) => {
                 const { user } = useAuthStore.getState();
+                cancelConversationSave(id);
                 set((state) => {
                     const index = state.conversations.findIndex(c => c.id === id);
                     if (index !== -1) state.conversations.splice(index, 1);
@@ -129,9 +199,10 @@ export const useChatStore = create<ChatState>()(
                         state.activeConversationId = state.conversations[0]?.id ?? null;
                     }
                 });
+                listenToMessages(get().activeConversationId);
 
                 if (user) {
-                    deleteDoc(doc(db, `users/${user.uid}/conversations`, id)).catch(console.error);
+                    enqueueMutations(user.uid, [{ type: 'deleteConversation', conversationId: id }]);
                 }
             },
 
@@ -140,6 +211,8 @@ export const useChatStore = create<ChatState>()(
                     state.activeConversationId = id;
                     state.error = null;
                 });
+                listenToMessages(id);
+                if (id) get().loadMessages(id);
             },
 
             updateConversationTitle: (id, title) => {
@@ -155,7 +228,12 @@ export const useChatStore = create<ChatState>()(
                 });
 
                 if (user) {
-                    setDoc(doc(db, `users/${user.uid}/conversations`, id), sanitizeForFirestore({ title, updatedAt: now }), { merge: true }).catch(console.error);
+                    enqueueMutations(user.uid, [{
+                        type: 'set',
+                        path: `${conversationsPath(user.uid)}/${id}`,
+                        data: sanitizeForFirestore({ title, updatedAt: now }),
+                        merge: true,
+                    }]);
                 }
             },
 
@@ -166,22 +244,23 @@ export const useChatStore = create<ChatState>()(
             },
 
             addMessage: (conversationId, messageData) => {
-                const { user } = useAuthStore.getState();
                 const now = new Date();
                 const message: Message = {
                     ...messageData,
                     id: generateId(),
                     timestamp: now,
+                    version: 1,
                 };
 
                 set((state) => {
                     const conversation = state.conversations.find(c => c.id === conversationId);
                     if (conversation) {
                         conversation.messages.push(message);
-                        conversation.messageCount = conversation.messages.length;
+                        // Counted rather than measured: older messages may not be loaded yet
+                        conversation.messageCount += 1;
                         conversation.updatedAt = now;
 
-                        if (conversation.messages.length === 1 && message.role === 'user') {
+                        if (conversation.messageCount === 1 && message.role === 'user') {
                             const words = message.content.split(' ').slice(0, 6).join(' ');
                             conversation.title = words.length < message.content.length ? words + '...' : words;
                         }
@@ -189,88 +268,118 @@ export const useChatStore = create<ChatState>()(
                         if (message.metadata?.toolName && !conversation.toolsUsed.includes(message.metadata.toolName)) {
                             conversation.toolsUsed.push(message.metadata.toolName);
                         }
+                        conversation.usage = addUsage(conversation.usage, message.metadata?.usage);
                     }
                 });
 
-                const conversation = get().conversations.find(c => c.id === conversationId);
-                if (user && conversation) {
-                    setDoc(doc(db, `users/${user.uid}/conversations`, conversationId), sanitizeForFirestore({
-                        ...conversation,
-                        updatedAt: now
-                    })).catch(console.error);
-                }
+                // An empty placeholder about to be streamed into can wait for its first tokens
+                saveMessage(conversationId, message.id);
+                saveConversation(conversationId, { immediate: !message.metadata?.isStreaming });
 
                 return message;
             },
 
             updateMessage: (conversationId, messageId, updates) => {
-                const { user } = useAuthStore.getState();
                 set((state) => {
                     const conv = state.conversations.find(c => c.id === conversationId);
                     if (conv) {
                         const msg = conv.messages.find(m => m.id === messageId);
-                        if (msg) Object.assign(msg, updates);
+                        if (msg) {
+                            const previousUsage = msg.metadata?.usage;
+                            Object.assign(msg, updates);
+                            msg.version = (msg.version ?? 0) + 1;
+
+                            // Swap the message's old counts for the new ones in the total
+                            const usage = msg.metadata?.usage;
+                            if (usage !== previousUsage) {
+                                conv.usage = addUsage(addUsage(conv.usage, previousUsage, -1), usage);
+                            }
+                        }
                     }
                 });
 
-                const conversation = get().conversations.find(c => c.id === conversationId);
-                if (user && conversation) {
-                    setDoc(doc(db, `users/${user.uid}/conversations`, conversationId), sanitizeForFirestore(conversation)).catch(console.error);
-                }
+                // Token updates are batched; the update that ends the stream is written at once
+                const message = get().conversations
+                    .find(c => c.id === conversationId)?.messages
+                    .find(m => m.id === messageId);
+                // Queued first so the header goes out with the message when it is written at once
+                if (updates.metadata?.usage) saveConversation(conversationId);
+                saveMessage(conversationId, messageId, { immediate: !message?.metadata?.isStreaming });
             },
 
             deleteMessage: (conversationId, messageId) => {
                 const { user } = useAuthStore.getState();
                 set((state) => {
                     const conv = state.conversations.find(c => c.id === conversationId);
-                    if (conv) {
-                        conv.messages = conv.messages.filter(m => m.id !== messageId);
-                        conv.messageCount = conv.messages.length;
+                    const index = conv?.messages.findIndex(m => m.id === messageId) ?? -1;
+                    if (conv && index !== -1) {
+                        conv.messages.splice(index, 1);
+                        conv.messageCount = Math.max(0, conv.messageCount - 1);
                     }
                 });
 
-                const conversation = get().conversations.find(c => c.id === conversationId);
-                if (user && conversation) {
-                    setDoc(doc(db, `users/${user.uid}/conversations`, conversationId), sanitizeForFirestore(conversation)).catch(console.error);
+                if (user) {
+                    enqueueMutations(user.uid, [{ type: 'delete', path: `${messagesPath(user.uid, conversationId)}/${messageId}` }]);
                 }
+                saveConversation(conversationId, { immediate: true });
+            },
+
+            recordUsage: (conversationId, usage) => {
+                set((state) => {
+                    const conv = state.conversations.find(c => c.id === conversationId);
+                    if (conv) conv.usage = addUsage(conv.usage, usage);
+                });
+                saveConversation(conversationId);
             },
 
             setGenerating: (generating) => set({ isGenerating: generating }),
             setError: (error) => set({ error, isGenerating: false }),
             clearError: () => set({ error: null }),
 
-            fetchConversations: async () => {
+            subscribeConversations: () => {
                 const { user } = useAuthStore.getState();
-                if (!user) return;
+                if (!user) return () => {};
 
+                conversationLimit = CONVERSATION_PAGE_SIZE;
                 set({ loading: true });
-                try {
-                    const q = query(
-                        collection(db, `users/${user.uid}/conversations`),
-                        orderBy('updatedAt', 'desc')
-                    );
-                    const querySnapshot = await getDocs(q);
-                    const conversations: Conversation[] = [];
-
-                    querySnapshot.forEach((doc) => {
-                        const data = doc.data();
-                        conversations.push({
-                            ...data,
-                            id: doc.id,
-                            createdAt: parseDate(data.createdAt),
-                            updatedAt: parseDate(data.updatedAt),
-                            messages: (data.messages || []).map((m: any) => ({
-                                ...m,
-                                timestamp: parseDate(m.timestamp),
-                            })),
-                        } as Conversation);
-                    });
-
-                    set({ conversations, loading: false });
-                } catch (error) {
-                    console.error('Error fetching:', error);
-                    set({ loading: false });
-                }
+                listenToConversations(user.uid);
+                listenToMessages(get().activeConversationId);
+                // Send anything left in the outbox from an earlier session
+                processOutbox();
+
+                return () => {
+                    unsubscribeConversations?.();
+                    unsubscribeConversations = null;
+                    unsubscribeMessages?.();
+                    unsubscribeMessages = null;
+                };
+            },
+
+            loadMoreConversations: () => {
+                const { user } = useAuthStore.getState();
+                if (!user || !unsubscribeConversations || !get().hasMoreConversations) return;
+
+                // Widen the live window instead of paging, so older chats stay in sync too
+                conversationLimit += CONVERSATION_PAGE_SIZE;
+                set({ loading: true });
+                listenToConversations(user.uid);
+            },
+
+            loadMessages: async (conversationId) => {
+                const conversation = get().conversations.find(c => c.id === conversationId);
+                if (!conversation || conversation.messages.length >= conversation.messageCount) return;
+
+                const stored = await loadStoredMessages(conversationId);
+                if (stored.length === 0) return;
+
+                set((state) => {
+                    const conv = state.conversations.find(c => c.id === conversationId);
+                    if (!conv) return;
+                    // Messages that arrived meanwhile (new or from Firestore) win over stored copies
+                    const present = new Set(conv.messages.map(m => m.id));
+                    conv.messages = [...stored.filter(m => !present.has(m.id)), ...conv.messages]
+                        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+                });
             },
 
             getActiveConversation: () => {
@@ -280,30 +389,16 @@ export const useChatStore = create<ChatState>()(
         })),
         {
             name: 'chat-storage',
-            storage: createJSONStorage(() => localStorage),
+            ...chatMigrations,
+            // Conversations are passed through untouched so the storage can skip unchanged ones
+            storage: createChatStorage(LOCAL_SAVE_DELAY),
             partialize: (state) => ({
-                conversations: state.conversations.map(c => ({
-                    ...c,
-                    createdAt: serializeDate(c.createdAt),
-                    updatedAt: serializeDate(c.updatedAt),
-                    messages: c.messages.map(m => ({
-                        ...m,
-                        timestamp: serializeDate(m.timestamp),
-                    })),
-                })),
+                conversations: state.conversations,
                 activeConversationId: state.activeConversationId,
             }),
             onRehydrateStorage: () => (state) => {
-                if (state) {
-                    state.conversations = state.conversations.map(c => ({
-                        ...c,
-                        createdAt: parseDate(c.createdAt),
-                        updatedAt: parseDate(c.updatedAt),
-                        messages: (c.messages || []).map(m => ({
-                            ...m,
-                            timestamp: parseDate(m.timestamp),
-                        })),
-                    }));
+                if (state?.activeConversationId) {
+                    state.loadMessages(state.activeConversationId);
                 }
             },
         }
@@ -0,0 +1,209 @@
+// Compare mode: one prompt answered by several models side by side
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { getChatProvider, type ChatMessage, type ChatToolCall } from '@/lib/providers';
+import { createMigrations, remapModelId } from '@/lib/migrations';
+import { addUsage, withCost } from '@/lib/models/usage';
+import { useChatStore } from './chatStore';
+import { useToolStore } from './toolStore';
+import { useUsageStore } from './usageStore';
+import { generateId } from '@/utils/helpers';
+import type { MessageModel, TokenUsage } from '@/types/chat';
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 3;
+
+// Tools with side effects that should not run once per compared model
+const EXCLUDED_COMPARE_TOOLS = ['deep_research', 'image_generation'];
+
+export interface CompareAnswer {
+    model: MessageModel;
+    content: string;
+    isStreaming: boolean;
+    thinkingTime?: number;
+    toolCalls?: ChatToolCall[];
+    usage?: TokenUsage;
+    error?: string;
+}
+
+export interface CompareRun {
+    id: string;
+    conversationId: string;
+    prompt: string;
+    answers: CompareAnswer[];
+    startedAt: Date;
+}
+
+interface CompareState {
+    enabled: boolean;
+    models: MessageModel[];
+    run: CompareRun | null;
+
+    setEnabled: (enabled: boolean) => void;
+    toggleModel: (model: MessageModel) => void;
+    startCompare: (conversationId: string, history: ChatMessage[], prompt: string) => Promise<void>;
+    pickAnswer: (index: number) => void;
+    discardRun: () => void;
+    isRunning: () => boolean;
+}
+
+// Aborts the running compare when it is discarded or replaced
+let runController: AbortController | null = null;
+
+const sameModel = (a: MessageModel, b: MessageModel) => a.provider === b.provider && a.modelId === b.modelId;
+
+// Answers that are not kept were still paid for, so they count toward the conversation
+function recordUnkeptUsage(run: CompareRun, keptIndex?: number) {
+    const usage = run.answers.reduce<TokenUsage | undefined>(
+        (total, answer, i) => i === keptIndex ? total : addUsage(total, answer.usage),
+        undefined
+    );
+    if (usage) useChatStore.getState().recordUsage(run.conversationId, usage);
+}
+
+const compareMigrations = createMigrations<Pick<CompareState, 'enabled' | 'models'>>([
+    // v1: retired model ids, dropping any that now duplicate another pick
+    (state) => {
+        const models: MessageModel[] = [];
+        for (const model of Array.isArray(state.models) ? state.models as MessageModel[] : []) {
+            const remapped = { ...model, modelId: remapModelId(model.modelId) };
+            if (!models.some(m => sameModel(m, remapped))) models.push(remapped);
+        }
+        return { ...state, models };
+    },
+]);
+
+export const useCompareStore = create<CompareState>()(
+    persist(
+        (set, get) => ({
+            enabled: false,
+            models: [
+                { provider: 'gemini', modelId: 'gemini-2.5-flash-lite' },
+                { provider: 'groq', modelId: 'llama-3.3-70b-versatile' },
+            ],
+            run: null,
+
+            setEnabled: (enabled) => set({ enabled }),
+
+            toggleModel: (model) => {
+                set((state) => {
+                    if (state.models.some(m => sameModel(m, model))) {
+                        return { models: state.models.filter(m => !sameModel(m, model)) };
+                    }
+                    if (state.models.length >= MAX_COMPARE_MODELS) return state;
+                    return { models: [...state.models, model] };
+                });
+            },
+
+            startCompare: async (conversationId, history, prompt) => {
+                const { models, run: previousRun } = get();
+                const runId = generateId();
+                runController?.abort();
+                if (previousRun) recordUnkeptUsage(previousRun);
+                const controller = new AbortController();
+                runController = controller;
+                const enabledToolIds = useToolStore.getState().enabledToolIds
+                    .filter(id => !EXCLUDED_COMPARE_TOOLS.includes(id));
+
+                set({
+                    run: {
+                        id: runId,
+                        conversationId,
+                        prompt,
+                        answers: models.map(model => ({ model, content: '', isStreaming: true })),
+                        startedAt: new Date(),
+                    },
+                });
+
+                // Ignore updates from a run that has since been picked or discarded
+                const updateAnswer = (index: number, updates: Partial<CompareAnswer>) => {
+                    set((state) => {
+                        if (state.run?.id !== runId) return state;
+                        const answers = state.run.answers.map((a, i) => i === index ? { ...a, ...updates } : a);
+                        return { run: { ...state.run, answers } };
+                    });
+                };
+
+                await Promise.all(models.map(async (model, index) => {
+                    const startTime = Date.now();
+                    let content = '';
+
+                    const quotaError = useUsageStore.getState().getQuotaError(model.provider);
+                    if (quotaError) {
+                        updateAnswer(index, { error: quotaError, isStreaming: false });
+                        return;
+                    }
+
+                    try {
+                        const result = await getChatProvider(model.provider).sendMessage({
+                            modelId: model.modelId,
+                            messages: [...history, { role: 'user', content: prompt }],
+                            enabledToolIds,
+                            signal: controller.signal,
+                            onEvent: (event) => {
+                                if (event.type !== 'token') return;
+                                content += event.token;
+                                updateAnswer(index, { content });
+                            },
+                        });
+
+                        updateAnswer(index, {
+                            content: result.text || content,
+                            toolCalls: result.toolCalls,
+                            usage: result.usage && withCost(model.provider, model.modelId, result.usage),
+                            thinkingTime: Date.now() - startTime,
+                            isStreaming: false,
+                        });
+                    } catch (error) {
+                        if (controller.signal.aborted) return;
+                        updateAnswer(index, {
+                            error: error instanceof Error ? error.message : 'An error occurred',
+                            thinkingTime: Date.now() - startTime,
+                            isStreaming: false,
+                        });
+                    }
+                }));
+            },
+
+            pickAnswer: (index) => {
+                const { run } = get();
+                const answer = run?.answers[index];
+                if (!run || !answer || answer.isStreaming || answer.error) return;
+
+                useChatStore.getState().addMessage(run.conversationId, {
+                    role: 'assistant',
+                    content: answer.content,
+                    metadata: {
+                        thinkingTime: answer.thinkingTime,
+                        toolName: answer.toolCalls?.[0]?.name,
+                        toolResults: answer.toolCalls && answer.toolCalls.length > 0 ? answer.toolCalls : null,
+                        model: answer.model,
+                        usage: answer.usage,
+                    },
+                });
+                recordUnkeptUsage(run, index);
+                set({ run: null });
+            },
+
+            discardRun: () => {
+                runController?.abort();
+                runController = null;
+                const { run } = get();
+                if (run) recordUnkeptUsage(run);
+                set({ run: null });
+            },
+
+            isRunning: () => {
+                return !!get().run?.answers.some(a => a.isStreaming);
+            },
+        }),
+        {
+            name: 'compare-mode',
+            ...compareMigrations,
+            partialize: (state) => ({
+                enabled: state.enabled,
+                models: state.models,
+            }),
+        }
+    )
+);
@@ -0,0 +1,126 @@
+// Model registry: the built-in catalog, refreshed from each provider's list-models endpoint
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { getChatProvider, listChatProviders } from '@/lib/providers';
+import { BUILTIN_MODELS, toRegistryModel } from '@/lib/models/catalog';
+import { RETIRED_MODEL_IDS, createMigrations } from '@/lib/migrations';
+import type { AIProvider } from './settingsStore';
+import type { AIModel } from '@/types/models';
+
+// Cached lists older than this are refreshed on startup
+export const MODEL_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+interface ModelState {
+    models: AIModel[];
+    lastRefreshed: Partial<Record<AIProvider, string>>;
+    refreshing: AIProvider[];
+    errors: Partial<Record<AIProvider, string>>;
+
+    // Actions
+    refreshProvider: (provider: AIProvider) => Promise<void>;
+    refreshAll: (maxAge?: number) => Promise<void>;
+
+    // Getters
+    getModel: (provider: AIProvider, modelId: string) => AIModel | undefined;
+    getModelsForProvider: (provider: AIProvider) => AIModel[];
+}
+
+// Catalog models keep their curated order; the rest follow alphabetically
+function sortModels(models: AIModel[]): AIModel[] {
+    const rank = (m: AIModel) => {
+        const index = BUILTIN_MODELS.findIndex(b => b.provider === m.provider && b.id === m.id);
+        return index === -1 ? BUILTIN_MODELS.length : index;
+    };
+    return [...models].sort((a, b) => rank(a) - rank(b) || a.id.localeCompare(b.id));
+}
+
+const modelMigrations = createMigrations<Pick<ModelState, 'models' | 'lastRefreshed'>>([
+    // v1: cached lists kept retired models and stale catalog entries
+    (state) => {
+        const cached = Array.isArray(state.models) ? state.models as AIModel[] : [];
+        const discovered = cached.filter(m =>
+            !RETIRED_MODEL_IDS[m.id] && !BUILTIN_MODELS.some(b => b.provider === m.provider && b.id === m.id)
+        );
+        return { ...state, models: sortModels([...BUILTIN_MODELS, ...discovered]) };
+    },
+    // v2: discovered Gemini models all claimed tools and vision; list them again
+    (state) => {
+        const cached = Array.isArray(state.models) ? state.models as AIModel[] : [];
+        return {
+            ...state,
+            models: cached.filter(m => m.provider !== 'gemini' || BUILTIN_MODELS.some(b => b.provider === 'gemini' && b.id === m.id)),
+            lastRefreshed: Object.fromEntries(
+                Object.entries((state.lastRefreshed ?? {}) as Record<string, string>).filter(([provider]) => provider !== 'gemini')
+            ),
+        };
+    },
+]);
+
+export const useModelStore = create<ModelState>()(
+    persist(
+        (set, get) => ({
+            models: BUILTIN_MODELS,
+            lastRefreshed: {},
+            refreshing: [],
+            errors: {},
+
+            refreshProvider: async (provider) => {
+                const chatProvider = getChatProvider(provider);
+                if (!chatProvider.isConfigured() || get().refreshing.includes(provider)) return;
+
+                set((state) => ({
+                    refreshing: [...state.refreshing, provider],
+                    errors: { ...state.errors, [provider]: undefined },
+                }));
+
+                try {
+                    const discovered = await chatProvider.listModels();
+                    const models = discovered.map(m => toRegistryModel(provider, m));
+
+                    set((state) => ({
+                        models: sortModels([...state.models.filter(m => m.provider !== provider), ...models]),
+                        lastRefreshed: { ...state.lastRefreshed, [provider]: new Date().toISOString() },
+                    }));
+                } catch (error) {
+                    console.error(`Error refreshing ${provider} models:`, error);
+                    set((state) => ({
+                        errors: {
+                            ...state.errors,
+                            [provider]: error instanceof Error ? error.message : 'Failed to list models',
+                        },
+                    }));
+                } finally {
+                    set((state) => ({ refreshing: state.refreshing.filter(p => p !== provider) }));
+                }
+            },
+
+            refreshAll: async (maxAge = 0) => {
+                const { lastRefreshed, refreshProvider } = get();
+                const now = Date.now();
+
+                await Promise.all(listChatProviders()
+                    .filter(p => {
+                        const refreshedAt = lastRefreshed[p.id];
+                        return !refreshedAt || now - new Date(refreshedAt).getTime() >= maxAge;
+                    })
+                    .map(p => refreshProvider(p.id)));
+            },
+
+            getModel: (provider, modelId) => {
+                return get().models.find(m => m.provider === provider && m.id === modelId);
+            },
+
+            getModelsForProvider: (provider) => {
+                return get().models.filter(m => m.provider === provider);
+            },
+        }),
+        {
+            name: 'model-registry',
+            ...modelMigrations,
+            partialize: (state) => ({
+                models: state.models,
+                lastRefreshed: state.lastRefreshed,
+            }),
+        }
+    )
+);
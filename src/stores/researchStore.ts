@@ -0,0 +1,265 @@
+// Deep research session state
+import { create } from 'zustand';
+import {
+    doc,
+    setDoc,
+    deleteDoc,
+    collection,
+    query,
+    getDocs,
+    orderBy
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import {
+    runDeepResearch,
+    resumeDeepResearch,
+    canResumeResearch,
+    type ResumeResearchOptions
+} from '@/lib/research/engine';
+import { useAuthStore } from './authStore';
+import { useChatStore } from './chatStore';
+import { parseDate, sanitizeForFirestore } from '@/utils/helpers';
+import type {
+    ResearchFinding,
+    ResearchPhaseTiming,
+    ResearchPlan,
+    ResearchSession
+} from '@/types/research';
+
+interface ResearchState {
+    // State
+    sessions: ResearchSession[];
+    activeSessionId: string | null;
+    viewingSessionId: string | null;
+    pendingPlan: { sessionId: string; plan: ResearchPlan } | null;
+    loading: boolean;
+
+    // Actions
+    // `signal` cancels the run, e.g. when the chat turn that started it is stopped
+    startResearch: (topic: string, conversationId: string, signal?: AbortSignal) => Promise<ResearchSession>;
+    resumeResearch: (id: string) => Promise<ResearchSession | undefined>;
+    cancelResearch: (id: string) => void;
+    approvePlan: (id: string, plan: ResearchPlan) => void;
+    // Add a finished session's report to its conversation
+    postReport: (id: string) => void;
+    upsertSession: (session: ResearchSession) => void;
+    deleteSession: (id: string) => void;
+    openSession: (id: string | null) => void;
+    fetchSessions: () => Promise<void>;
+
+    // Getters
+    getSession: (id: string) => ResearchSession | undefined;
+    getActiveSession: () => ResearchSession | undefined;
+    isResumable: (id: string) => boolean;
+}
+
+// Abort controllers for runs in progress in this tab, keyed by session id
+const runningControllers = new Map<string, AbortController>();
+
+// Resolvers for runs paused on plan review, keyed by session id
+const planResolvers = new Map<string, (plan: ResearchPlan) => void>();
+
+const saveSessionToFirestore = async (userId: string, session: ResearchSession) => {
+    try {
+        await setDoc(doc(db, `users/${userId}/research`, session.id), sanitizeForFirestore(session));
+    } catch (error) {
+        console.error('Error saving research session:', error);
+    }
+};
+
+export const useResearchStore = create<ResearchState>((set, get) => ({
+    sessions: [],
+    activeSessionId: null,
+    viewingSessionId: null,
+    pendingPlan: null,
+    loading: false,
+
+    startResearch: async (topic, conversationId, signal) => {
+        const { user } = useAuthStore.getState();
+        const controller = new AbortController();
+        signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+        return runSession(controller, (handlers) => runDeepResearch(topic, {
+            userId: user?.uid || '',
+            conversationId,
+            ...handlers,
+        }));
+    },
+
+    resumeResearch: async (id) => {
+        const previous = get().getSession(id);
+        if (!previous || !get().isResumable(id)) return undefined;
+
+        const controller = new AbortController();
+        const session = await runSession(controller, (handlers) => resumeDeepResearch(previous, handlers));
+        // No chat turn is waiting on a resumed run, so its report is posted right away
+        get().postReport(session.id);
+        return session;
+    },
+
+    cancelResearch: (id) => {
+        runningControllers.get(id)?.abort();
+    },
+
+    approvePlan: (id, plan) => {
+        const resolve = planResolvers.get(id);
+        if (!resolve) return;
+        planResolvers.delete(id);
+        set({ pendingPlan: null });
+        resolve(plan);
+    },
+
+    postReport: (id) => {
+        const session = get().getSession(id);
+        const conversationExists = useChatStore.getState().conversations.some(c => c.id === session?.conversationId);
+        if (!session || session.status !== 'complete' || !session.finalReport || !conversationExists) return;
+
+        useChatStore.getState().addMessage(session.conversationId, {
+            role: 'assistant',
+            content: session.finalReport,
+            metadata: {
+                toolName: 'deep_research',
+                sources: session.sources.map(s => ({
+                    url: s.url,
+                    title: s.title,
+                    snippet: s.content.slice(0, 200),
+                    score: s.score,
+                })),
+            },
+        });
+    },
+
+    upsertSession: (session) => {
+        set((state) => {
+            const exists = state.sessions.some(s => s.id === session.id);
+            return {
+                sessions: exists
+                    ? state.sessions.map(s => s.id === session.id ? session : s)
+                    : [session, ...state.sessions],
+            };
+        });
+    },
+
+    deleteSession: (id) => {
+        const { user } = useAuthStore.getState();
+        set((state) => ({
+            sessions: state.sessions.filter(s => s.id !== id),
+            viewingSessionId: state.viewingSessionId === id ? null : state.viewingSessionId,
+        }));
+
+        if (user) {
+            deleteDoc(doc(db, `users/${user.uid}/research`, id)).catch(console.error);
+        }
+    },
+
+    openSession: (id) => set({ viewingSessionId: id }),
+
+    fetchSessions: async () => {
+        const { user } = useAuthStore.getState();
+        if (!user) return;
+
+        set({ loading: true });
+        try {
+            const q = query(
+                collection(db, `users/${user.uid}/research`),
+                orderBy('createdAt', 'desc')
+            );
+            const querySnapshot = await getDocs(q);
+            const sessions: ResearchSession[] = [];
+
+            querySnapshot.forEach((doc) => {
+                const data = doc.data();
+                sessions.push({
+                    ...data,
+                    id: doc.id,
+                    queries: data.queries || [],
+                    sources: data.sources || [],
+                    findings: (data.findings || []).map((f: ResearchFinding | string) =>
+                        // Sessions saved before findings were structured stored plain text
+                        typeof f === 'string' ? { content: f, sources: [], confidence: 0.5, iteration: 0 } : f
+                    ),
+                    checkpoint: data.checkpoint
+                        ? { ...data.checkpoint, updatedAt: parseDate(data.checkpoint.updatedAt) }
+                        : undefined,
+                    timings: (data.timings || []).map((t: ResearchPhaseTiming) => ({
+                        ...t,
+                        startedAt: parseDate(t.startedAt),
+                    })),
+                    createdAt: parseDate(data.createdAt),
+                    completedAt: data.completedAt ? parseDate(data.completedAt) : undefined,
+                } as ResearchSession);
+            });
+
+            // Keep any run that is still in progress in this tab
+            const running = get().sessions.filter(s => s.id === get().activeSessionId);
+            set({
+                sessions: [...running, ...sessions.filter(s => !running.some(r => r.id === s.id))],
+                loading: false,
+            });
+        } catch (error) {
+            console.error('Error fetching research sessions:', error);
+            set({ loading: false });
+        }
+    },
+
+    getSession: (id) => {
+        return get().sessions.find(s => s.id === id);
+    },
+
+    getActiveSession: () => {
+        const { sessions, activeSessionId } = get();
+        return sessions.find(s => s.id === activeSessionId);
+    },
+
+    isResumable: (id) => {
+        const { activeSessionId } = get();
+        const session = get().getSession(id);
+        // Only one run at a time, and never one that is still going in this tab
+        return !!session && activeSessionId === null && canResumeResearch(session);
+    },
+}));
+
+/**
+ * Drive a run: track it as active and checkpoint it to Firestore
+ */
+async function runSession(
+    controller: AbortController,
+    run: (handlers: ResumeResearchOptions) => Promise<ResearchSession>
+): Promise<ResearchSession> {
+    const { user } = useAuthStore.getState();
+    const store = useResearchStore;
+    let sessionId: string | null = null;
+
+    const session = await run({
+        signal: controller.signal,
+        onUpdate: (update) => {
+            if (sessionId !== update.id) {
+                sessionId = update.id;
+                runningControllers.set(update.id, controller);
+                store.setState({ activeSessionId: update.id });
+            }
+            store.getState().upsertSession(update);
+        },
+        onCheckpoint: (checkpoint) => {
+            if (user) saveSessionToFirestore(user.uid, checkpoint);
+        },
+        reviewPlan: (pending, plan) => new Promise((resolve) => {
+            planResolvers.set(pending.id, resolve);
+            store.setState({ pendingPlan: { sessionId: pending.id, plan } });
+        }),
+    });
+
+    runningControllers.delete(session.id);
+    planResolvers.delete(session.id);
+    store.getState().upsertSession(session);
+    store.setState((state) => ({
+        activeSessionId: null,
+        pendingPlan: state.pendingPlan?.sessionId === session.id ? null : state.pendingPlan,
+    }));
+
+    if (user) {
+        saveSessionToFirestore(user.uid, session);
+    }
+
+    return session;
+}
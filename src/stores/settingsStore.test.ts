@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+import { migrateDocument } from '@/lib/migrations';
+import { settingsMigrations } from './settingsStore';
+
+vi.mock('@/lib/firebase/config', () => ({ db: {} }));
+vi.mock('./authStore', () => ({ useAuthStore: { getState: () => ({ user: null }) } }));
+
+describe('settingsMigrations', () => {
+    it('remaps retired model ids', () => {
+        const state = settingsMigrations.migrate({
+            provider: 'groq',
+            modelId: 'llama3-8b-8192',
+            fallbackModelId: 'gemma2-9b-it',
+        }, 0);
+        expect(state).toMatchObject({ provider: 'groq', modelId: 'llama-3.1-8b-instant', fallbackModelId: 'llama-3.1-8b-instant' });
+    });
+
+    it('resets an unknown provider to the default model', () => {
+        const state = settingsMigrations.migrate({ provider: 'anthropic', modelId: 'claude' }, 0);
+        expect(state).toMatchObject({ provider: 'gemini', modelId: 'gemini-2.5-flash-lite' });
+    });
+
+    it('leaves the provider and model of a partial preferences document alone', () => {
+        const { state, outdated } = migrateDocument({ temperature: 0.2 }, settingsMigrations);
+        expect(outdated).toBe(true);
+        expect(state).toEqual({ temperature: 0.2 });
+    });
+});
@@ -3,54 +3,29 @@ import { persist } from 'zustand/middleware';
 import {
     doc,
     setDoc,
-    getDoc
+    onSnapshot
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
+import {
+    SCHEMA_VERSION_FIELD,
+    createMigrations,
+    migrateDocument,
+    remapModelId
+} from '@/lib/migrations';
 import { useAuthStore } from './authStore';
+import { useModelStore } from './modelStore';
+import type { AIModel } from '@/types/models';
 
-export type AIProvider = 'gemini' | 'groq';
+export type AIProvider = 'gemini' | 'groq' | 'openai-compatible' | 'ollama';
 
-export interface AIModel {
-    id: string;
-    name: string;
-    description: string;
-    provider: AIProvider;
+// Model that retries a turn when the selected one is rate limited or out of quota
+export interface FallbackSettings {
+    fallbackEnabled: boolean;
+    fallbackProvider: AIProvider;
+    fallbackModelId: string;
 }
 
-export const AVAILABLE_MODELS: AIModel[] = [
-    {
-        id: 'gemini-2.5-flash',
-        name: 'Gemini 2.5 Flash',
-        description: 'Newest and most capable Flash model (Google)',
-        provider: 'gemini',
-    },
-    {
-        id: 'gemini-2.5-flash-lite',
-        name: 'Gemini 2.5 Flash Lite',
-        description: 'Fastest Gemini model (Google)',
-        provider: 'gemini',
-    },
-    {
-        id: 'llama-3.3-70b-versatile',
-        name: 'Llama 3.3 70B',
-        description: 'High performance versatile model (Meta)',
-        provider: 'groq',
-    },
-    {
-        id: 'llama-3.1-8b-instant',
-        name: 'Llama 3.1 8B',
-        description: 'Ultra-fast inference (Meta)',
-        provider: 'groq',
-    },
-    {
-        id: 'llama-3.3-70b-specdec',
-        name: 'Llama 3.3 70B (Speculative)',
-        description: 'High speed performance model (Meta)',
-        provider: 'groq',
-    },
-];
-
-interface SettingsState {
+interface SettingsState extends FallbackSettings {
     provider: AIProvider;
     modelId: string;
     systemPrompt: string;
@@ -58,19 +33,38 @@ interface SettingsState {
     topP: number;
 
     setProvider: (provider: AIProvider) => void;
-    setModelId: (modelId: string) => void;
+    setModelId: (modelId: string, provider?: AIProvider) => void;
     setSystemPrompt: (prompt: string) => void;
     setTemperature: (temp: number) => void;
     setTopP: (p: number) => void;
+    setFallback: (fallback: Partial<FallbackSettings>) => void;
     resetToDefaults: () => void;
     getCurrentModel: () => AIModel | undefined;
-    fetchSettings: () => Promise<void>;
+    // Apply preference changes made on other devices as they happen
+    subscribeSettings: () => () => void;
 }
 
+const PROVIDERS: AIProvider[] = ['gemini', 'groq', 'openai-compatible', 'ollama'];
+
+// Also applied to the preferences document in Firestore, which older versions
+// wrote one field at a time, so a missing field is left alone
+export const settingsMigrations = createMigrations<SettingsState>([
+    // v1: retired model ids and unknown providers
+    (state) => ({
+        ...state,
+        ...(typeof state.modelId === 'string' && { modelId: remapModelId(state.modelId) }),
+        ...(typeof state.fallbackModelId === 'string' && { fallbackModelId: remapModelId(state.fallbackModelId) }),
+        ...(typeof state.provider === 'string' && !PROVIDERS.includes(state.provider as AIProvider) && {
+            provider: 'gemini',
+            modelId: 'gemini-2.5-flash-lite',
+        }),
+    }),
+]);
+
 const syncSettingsToFirestore = async (userId: string, settings: Partial<SettingsState>) => {
     try {
         const docRef = doc(db, `users/${userId}/settings`, 'preferences');
-        await setDoc(docRef, settings, { merge: true });
+        await setDoc(docRef, { ...settings, [SCHEMA_VERSION_FIELD]: settingsMigrations.version }, { merge: true });
     } catch (error) {
         console.error('Error syncing settings to Firestore:', error);
     }
@@ -84,21 +78,25 @@ export const useSettingsStore = create<SettingsState>()(
             systemPrompt: '',
             temperature: 0.7,
             topP: 0.95,
+            fallbackEnabled: false,
+            fallbackProvider: 'groq',
+            fallbackModelId: 'llama-3.3-70b-versatile',
 
             setProvider: (provider) => {
                 const { user } = useAuthStore.getState();
-                const firstModelOfProvider = AVAILABLE_MODELS.find(m => m.provider === provider);
+                const firstModelOfProvider = useModelStore.getState().getModelsForProvider(provider)[0];
                 const newState = {
                     provider,
-                    modelId: firstModelOfProvider?.id ?? (provider === 'gemini' ? 'gemini-2.5-flash-lite' : 'llama-3.1-8b-instant')
+                    modelId: firstModelOfProvider?.id ?? (provider === 'gemini' ? 'gemini-2.5-flash-lite' : provider === 'groq' ? 'llama-3.1-8b-instant' : '')
                 };
                 set(newState);
                 if (user) syncSettingsToFirestore(user.uid, newState);
             },
 
-            setModelId: (modelId) => {
+            setModelId: (modelId, provider) => {
                 const { user } = useAuthStore.getState();
-                const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+                // The same id can be served by more than one provider
+                const model = useModelStore.getState().models.find(m => m.id === modelId && (!provider || m.provider === provider));
                 if (model) {
                     const newState = { modelId, provider: model.provider };
                     set(newState);
@@ -124,6 +122,12 @@ export const useSettingsStore = create<SettingsState>()(
                 if (user) syncSettingsToFirestore(user.uid, { topP });
             },
 
+            setFallback: (fallback) => {
+                const { user } = useAuthStore.getState();
+                set(fallback);
+                if (user) syncSettingsToFirestore(user.uid, fallback);
+            },
+
             resetToDefaults: () => {
                 const { user } = useAuthStore.getState();
                 const defaults = {
@@ -136,27 +140,30 @@ export const useSettingsStore = create<SettingsState>()(
             },
 
             getCurrentModel: () => {
-                const { modelId } = get();
-                return AVAILABLE_MODELS.find(m => m.id === modelId);
+                const { modelId, provider } = get();
+                return useModelStore.getState().getModel(provider, modelId);
             },
 
-            fetchSettings: async () => {
+            subscribeSettings: () => {
                 const { user } = useAuthStore.getState();
-                if (!user) return;
-
-                try {
-                    const docRef = doc(db, `users/${user.uid}/settings`, 'preferences');
-                    const docSnap = await getDoc(docRef);
-                    if (docSnap.exists()) {
-                        set(docSnap.data() as Partial<SettingsState>);
-                    }
-                } catch (error) {
-                    console.error('Error fetching settings:', error);
-                }
+                if (!user) return () => {};
+
+                return onSnapshot(
+                    doc(db, `users/${user.uid}/settings`, 'preferences'),
+                    (docSnap) => {
+                        if (!docSnap.exists()) return;
+
+                        const { state, outdated } = migrateDocument(docSnap.data(), settingsMigrations);
+                        set(state);
+                        if (outdated) syncSettingsToFirestore(user.uid, state);
+                    },
+                    (error) => console.error('Error listening to settings:', error)
+                );
             },
         }),
         {
             name: 'ai-settings-storage',
+            ...settingsMigrations,
         }
     )
 );
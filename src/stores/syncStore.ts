@@ -0,0 +1,44 @@
+// Status of the outbox that saves chat changes to Firestore
+import { create } from 'zustand';
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+interface SyncState {
+    status: SyncStatus;
+    pendingCount: number;
+    lastError: string | null;
+    lastSyncedAt: Date | null;
+    nextRetryAt: Date | null;
+
+    setPending: (pendingCount: number) => void;
+    setSyncing: () => void;
+    setSynced: () => void;
+    setFailed: (error: string, nextRetryAt: Date | null) => void;
+    setOffline: () => void;
+}
+
+export const useSyncStore = create<SyncState>((set) => ({
+    status: 'synced',
+    pendingCount: 0,
+    lastError: null,
+    lastSyncedAt: null,
+    nextRetryAt: null,
+
+    setPending: (pendingCount) => set((state) => ({
+        pendingCount,
+        // Keep showing a failure or offline state until the queue drains
+        status: pendingCount === 0 ? 'synced' : state.status === 'synced' ? 'pending' : state.status,
+    })),
+
+    setSyncing: () => set({ status: 'syncing', nextRetryAt: null }),
+
+    setSynced: () => set((state) => ({
+        status: state.pendingCount === 0 ? 'synced' : 'pending',
+        lastError: null,
+        lastSyncedAt: new Date(),
+    })),
+
+    setFailed: (error, nextRetryAt) => set({ status: 'error', lastError: error, nextRetryAt }),
+
+    setOffline: () => set({ status: 'offline', nextRetryAt: null }),
+}));
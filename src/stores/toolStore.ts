@@ -1,6 +1,7 @@
 // Tool state management with Zustand
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { createMigrations, type Migration } from '@/lib/migrations';
 
 export interface Tool {
     id: string;
@@ -10,6 +11,8 @@ export interface Tool {
     category: 'search' | 'analysis' | 'utility';
     enabled: boolean;
     requiresApiKey?: boolean;
+    // tool-preferences version that shipped the tool; set it one above the current version
+    since?: number;
 }
 
 // Available tools configuration
@@ -74,6 +77,21 @@ export const AVAILABLE_TOOLS: Tool[] = [
     },
 ];
 
+const TOOL_MIGRATIONS: Migration[] = [
+    // v1: forget tools that no longer exist
+    (state) => ({
+        ...state,
+        enabledToolIds: Array.isArray(state.enabledToolIds)
+            ? state.enabledToolIds.filter(id => AVAILABLE_TOOLS.some(t => t.id === id))
+            : AVAILABLE_TOOLS.filter(t => t.enabled).map(t => t.id),
+    }),
+];
+
+const toolMigrations = createMigrations<Pick<ToolState, 'enabledToolIds'>>(
+    TOOL_MIGRATIONS,
+    Math.max(TOOL_MIGRATIONS.length, ...AVAILABLE_TOOLS.map(t => t.since ?? 0))
+);
+
 interface ToolState {
     // State
     tools: Tool[];
@@ -155,6 +173,15 @@ export const useToolStore = create<ToolState>()(
         }),
         {
             name: 'tool-preferences',
+            version: toolMigrations.version,
+            // Tools shipped after the saved version start out with their default setting
+            migrate: (persistedState, version) => {
+                const state = toolMigrations.migrate(persistedState, version);
+                const shipped = AVAILABLE_TOOLS
+                    .filter(t => t.enabled && (t.since ?? 0) > version && !state.enabledToolIds.includes(t.id))
+                    .map(t => t.id);
+                return { ...state, enabledToolIds: [...state.enabledToolIds, ...shipped] };
+            },
             partialize: (state) => ({
                 enabledToolIds: state.enabledToolIds,
             }),
@@ -1,17 +1,23 @@
 // Usage tracking store for rate limiting and quota management
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { createMigrations } from '@/lib/migrations';
+import type { AIProvider } from './settingsStore';
 
 interface UsageLimits {
     gemini: { daily: number; warning: number };
+    groq: { daily: number; warning: number };
     tavily: { monthly: number; warning: number };
+    weather: { daily: number; warning: number };
     firestoreReads: { daily: number; warning: number };
     firestoreWrites: { daily: number; warning: number };
 }
 
 const LIMITS: UsageLimits = {
     gemini: { daily: 1500, warning: 0.8 },
+    groq: { daily: 1000, warning: 0.8 },
     tavily: { monthly: 1000, warning: 0.8 },
+    weather: { daily: 1000, warning: 0.8 },
     firestoreReads: { daily: 50000, warning: 0.8 },
     firestoreWrites: { daily: 20000, warning: 0.8 },
 };
@@ -19,7 +25,9 @@ const LIMITS: UsageLimits = {
 interface UsageState {
     // Usage counters
     geminiCalls: number;
+    groqCalls: number;
     tavilyCalls: number;
+    weatherCalls: number;
     firestoreReads: number;
     firestoreWrites: number;
     lastDailyReset: string;
@@ -27,7 +35,9 @@ interface UsageState {
 
     // Actions
     incrementGemini: () => void;
+    incrementGroq: () => void;
     incrementTavily: () => void;
+    incrementWeather: () => void;
     incrementFirestoreRead: (count?: number) => void;
     incrementFirestoreWrite: (count?: number) => void;
     resetIfNeeded: () => void;
@@ -36,10 +46,17 @@ interface UsageState {
     checkLimits: () => { isNearLimit: boolean; warnings: string[] };
     getUsageStats: () => {
         gemini: { used: number; limit: number; percent: number };
+        groq: { used: number; limit: number; percent: number };
         tavily: { used: number; limit: number; percent: number };
+        weather: { used: number; limit: number; percent: number };
     };
     canMakeGeminiCall: () => boolean;
+    canMakeGroqCall: () => boolean;
     canMakeTavilyCall: () => boolean;
+    canMakeWeatherCall: () => boolean;
+    canMakeFirestoreWrite: () => boolean;
+    // Why a chat turn on this provider cannot be sent, or null when it can
+    getQuotaError: (provider: AIProvider) => string | null;
 }
 
 function getToday(): string {
@@ -51,11 +68,26 @@ function getCurrentMonth(): string {
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 }
 
+const COUNTERS = ['geminiCalls', 'groqCalls', 'tavilyCalls', 'weatherCalls', 'firestoreReads', 'firestoreWrites'] as const;
+
+const usageMigrations = createMigrations<UsageState>([
+    // v1: counters that are missing or not numbers start over
+    (state) => ({
+        ...state,
+        ...Object.fromEntries(COUNTERS.map(counter => {
+            const value = state[counter];
+            return [counter, typeof value === 'number' && Number.isFinite(value) ? value : 0];
+        })),
+    }),
+]);
+
 export const useUsageStore = create<UsageState>()(
     persist(
         (set, get) => ({
             geminiCalls: 0,
+            groqCalls: 0,
             tavilyCalls: 0,
+            weatherCalls: 0,
             firestoreReads: 0,
             firestoreWrites: 0,
             lastDailyReset: getToday(),
@@ -66,11 +98,21 @@ export const useUsageStore = create<UsageState>()(
                 set((state) => ({ geminiCalls: state.geminiCalls + 1 }));
             },
 
+            incrementGroq: () => {
+                get().resetIfNeeded();
+                set((state) => ({ groqCalls: state.groqCalls + 1 }));
+            },
+
             incrementTavily: () => {
                 get().resetIfNeeded();
                 set((state) => ({ tavilyCalls: state.tavilyCalls + 1 }));
             },
 
+            incrementWeather: () => {
+                get().resetIfNeeded();
+                set((state) => ({ weatherCalls: state.weatherCalls + 1 }));
+            },
+
             incrementFirestoreRead: (count = 1) => {
                 get().resetIfNeeded();
                 set((state) => ({ firestoreReads: state.firestoreReads + count }));
@@ -89,6 +131,8 @@ export const useUsageStore = create<UsageState>()(
                 if (state.lastDailyReset !== today) {
                     set({
                         geminiCalls: 0,
+                        groqCalls: 0,
+                        weatherCalls: 0,
                         firestoreReads: 0,
                         firestoreWrites: 0,
                         lastDailyReset: today,
@@ -112,11 +156,21 @@ export const useUsageStore = create<UsageState>()(
                     warnings.push(`Gemini API: ${state.geminiCalls}/${LIMITS.gemini.daily} daily calls (${Math.round(geminiPercent * 100)}%)`);
                 }
 
+                const groqPercent = state.groqCalls / LIMITS.groq.daily;
+                if (groqPercent >= LIMITS.groq.warning) {
+                    warnings.push(`Groq API: ${state.groqCalls}/${LIMITS.groq.daily} daily calls (${Math.round(groqPercent * 100)}%)`);
+                }
+
                 const tavilyPercent = state.tavilyCalls / LIMITS.tavily.monthly;
                 if (tavilyPercent >= LIMITS.tavily.warning) {
                     warnings.push(`Web Search: ${state.tavilyCalls}/${LIMITS.tavily.monthly} monthly calls (${Math.round(tavilyPercent * 100)}%)`);
                 }
 
+                const weatherPercent = state.weatherCalls / LIMITS.weather.daily;
+                if (weatherPercent >= LIMITS.weather.warning) {
+                    warnings.push(`Weather: ${state.weatherCalls}/${LIMITS.weather.daily} daily calls (${Math.round(weatherPercent * 100)}%)`);
+                }
+
                 const readsPercent = state.firestoreReads / LIMITS.firestoreReads.daily;
                 if (readsPercent >= LIMITS.firestoreReads.warning) {
                     warnings.push(`Database reads: ${state.firestoreReads}/${LIMITS.firestoreReads.daily} daily (${Math.round(readsPercent * 100)}%)`);
@@ -138,11 +192,21 @@ export const useUsageStore = create<UsageState>()(
                         limit: LIMITS.gemini.daily,
                         percent: Math.round((state.geminiCalls / LIMITS.gemini.daily) * 100),
                     },
+                    groq: {
+                        used: state.groqCalls,
+                        limit: LIMITS.groq.daily,
+                        percent: Math.round((state.groqCalls / LIMITS.groq.daily) * 100),
+                    },
                     tavily: {
                         used: state.tavilyCalls,
                         limit: LIMITS.tavily.monthly,
                         percent: Math.round((state.tavilyCalls / LIMITS.tavily.monthly) * 100),
                     },
+                    weather: {
+                        used: state.weatherCalls,
+                        limit: LIMITS.weather.daily,
+                        percent: Math.round((state.weatherCalls / LIMITS.weather.daily) * 100),
+                    },
                 };
             },
 
@@ -151,13 +215,40 @@ export const useUsageStore = create<UsageState>()(
                 return get().geminiCalls < LIMITS.gemini.daily;
             },
 
+            canMakeGroqCall: () => {
+                get().resetIfNeeded();
+                return get().groqCalls < LIMITS.groq.daily;
+            },
+
             canMakeTavilyCall: () => {
                 get().resetIfNeeded();
                 return get().tavilyCalls < LIMITS.tavily.monthly;
             },
+
+            canMakeWeatherCall: () => {
+                get().resetIfNeeded();
+                return get().weatherCalls < LIMITS.weather.daily;
+            },
+
+            canMakeFirestoreWrite: () => {
+                get().resetIfNeeded();
+                return get().firestoreWrites < LIMITS.firestoreWrites.daily;
+            },
+
+            getQuotaError: (provider) => {
+                const { canMakeGeminiCall, canMakeGroqCall } = get();
+                if (provider === 'gemini' && !canMakeGeminiCall()) {
+                    return `Daily Gemini limit reached (${LIMITS.gemini.daily} calls). It resets at midnight UTC.`;
+                }
+                if (provider === 'groq' && !canMakeGroqCall()) {
+                    return `Daily Groq limit reached (${LIMITS.groq.daily} calls). It resets at midnight UTC.`;
+                }
+                return null;
+            },
         }),
         {
             name: 'usage-tracking',
+            ...usageMigrations,
         }
     )
 );
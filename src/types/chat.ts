@@ -1,4 +1,5 @@
 // Chat-related types
+import type { AIProvider } from '@/stores/settingsStore';
 
 export interface Message {
     id: string;
@@ -6,6 +7,8 @@ export interface Message {
     content: string;
     timestamp: Date;
     metadata?: MessageMetadata;
+    // Bumped on every local change; the higher version wins when devices disagree
+    version?: number;
 }
 
 export interface MessageMetadata {
@@ -14,7 +17,36 @@ export interface MessageMetadata {
     sources?: Source[];
     thinkingTime?: number;
     isStreaming?: boolean;
+    // The user stopped generation; content is the partial answer
+    stopped?: boolean;
     error?: string;
+    model?: MessageModel;
+    fallback?: ModelFallback;
+    usage?: TokenUsage;
+}
+
+// Tokens billed for a reply, summed over every request it took
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    // Estimated USD at the model's list price; unset when the price is unknown
+    cost?: number;
+}
+
+// The model that actually produced an assistant message
+export interface MessageModel {
+    provider: AIProvider;
+    modelId: string;
+}
+
+export type FallbackReason = 'rate_limited' | 'unavailable' | 'quota_exhausted';
+
+// Set when the selected model could not answer and another one did
+export interface ModelFallback {
+    fromProvider: AIProvider;
+    fromModelId: string;
+    reason: FallbackReason;
 }
 
 export interface Source {
@@ -34,6 +66,8 @@ export interface Conversation {
     messageCount: number;
     toolsUsed: string[];
     isDeepResearch: boolean;
+    // Running total of every reply, kept when messages are deleted
+    usage?: TokenUsage;
     messages: Message[];
 }
 
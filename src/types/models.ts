@@ -0,0 +1,32 @@
+// Model registry types
+import type { AIProvider } from '@/stores/settingsStore';
+
+// USD per million tokens
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+export interface ModelCapabilities {
+    tools: boolean;
+    vision: boolean;
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    pricing?: ModelPricing;
+}
+
+export interface AIModel {
+    id: string;
+    name: string;
+    description: string;
+    provider: AIProvider;
+    capabilities: ModelCapabilities;
+}
+
+// A model as reported by a provider's list-models endpoint
+export interface DiscoveredModel {
+    id: string;
+    name?: string;
+    description?: string;
+    capabilities?: Partial<ModelCapabilities>;
+}
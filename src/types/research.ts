@@ -5,11 +5,21 @@ export interface ResearchConfig {
     maxSearchesPerIteration: number;
     minSources: number;
     topic: string;
+    includeDomains?: string[];
+    excludeDomains?: string[];
+    maxSourcesPerDomain?: number;
+}
+
+export interface ResearchPlan {
+    queries: string[];
+    includeDomains: string[];
+    excludeDomains: string[];
 }
 
 export type ResearchPhase =
     | 'idle'
     | 'planning'
+    | 'reviewing'
     | 'searching'
     | 'analyzing'
     | 'synthesizing'
@@ -23,7 +33,7 @@ export interface ResearchProgress {
     maxIterations: number;
     currentQuery?: string;
     sourcesFound: number;
-    findings: string[];
+    findings: ResearchFinding[];
     percentComplete: number;
 }
 
@@ -37,13 +47,36 @@ export interface ResearchSession {
     progress: ResearchProgress;
     queries: string[];
     sources: ResearchSource[];
-    findings: string[];
+    findings: ResearchFinding[];
     finalReport?: string;
+    checkpoint?: ResearchCheckpoint;
+    timings?: ResearchPhaseTiming[];
     createdAt: Date;
     completedAt?: Date;
     error?: string;
 }
 
+export interface ResearchPhaseTiming {
+    phase: ResearchPhase;
+    iteration: number;
+    startedAt: Date;
+    durationMs?: number;
+}
+
+export interface ResearchCheckpoint {
+    // Last phase that finished; a resumed run continues with the phase after it
+    phase: ResearchPhase;
+    iteration: number;
+    pendingQueries: string[];
+    planApproved?: boolean;
+    draft?: string;
+    // Lengths of queries/sources/findings when the checkpoint was taken
+    queryCount: number;
+    sourceCount: number;
+    findingCount: number;
+    updatedAt: Date;
+}
+
 export interface ResearchSource {
     url: string;
     title: string;
@@ -52,6 +85,10 @@ export interface ResearchSource {
     publishedDate?: string;
     iteration: number;
     query: string;
+    // Every query that returned this source, including `query`
+    matchedQueries?: string[];
+    // Combined relevance, recency and domain diversity score from 0 to 1
+    credibility?: number;
 }
 
 export interface ResearchFinding {
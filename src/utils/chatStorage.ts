@@ -0,0 +1,253 @@
+// IndexedDB persistence for the chat store: one record per conversation header
+// and one per conversation's messages, so a save only rewrites what changed
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { Conversation, Message } from '@/types/chat';
+import { parseDate } from './helpers';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { createDeferredJSONStorage } from './storage';
+
+export interface ChatPersistedState {
+    conversations: Conversation[];
+    activeConversationId: string | null;
+}
+
+type ConversationRecord = Omit<Conversation, 'messages'>;
+
+interface MessagesRecord {
+    conversationId: string;
+    messages: Message[];
+}
+
+interface MetaRecord {
+    name: string;
+    version?: number;
+    activeConversationId: string | null;
+}
+
+const DB_NAME = 'ai-assistant-chats';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const MESSAGES = 'messages';
+const META = 'meta';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function getDatabase(): Promise<IDBDatabase | null> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+            db.createObjectStore(MESSAGES, { keyPath: 'conversationId' });
+            db.createObjectStore(META, { keyPath: 'name' });
+        }).catch((error) => {
+            console.error('Chat history falls back to localStorage:', error);
+            return null;
+        });
+    }
+    return dbPromise;
+}
+
+function reviveMessage(message: Message): Message {
+    return { ...message, timestamp: parseDate(message.timestamp) };
+}
+
+function reviveConversation(conversation: Conversation): Conversation {
+    const messages = (conversation.messages || []).map(reviveMessage);
+    return {
+        ...conversation,
+        createdAt: parseDate(conversation.createdAt),
+        updatedAt: parseDate(conversation.updatedAt),
+        messageCount: conversation.messageCount ?? messages.length,
+        messages,
+    };
+}
+
+function putConversation(transaction: IDBTransaction, conversation: Conversation, withMessages = true) {
+    const { messages, ...header } = conversation;
+    transaction.objectStore(CONVERSATIONS).put(header satisfies ConversationRecord);
+    if (withMessages) {
+        transaction.objectStore(MESSAGES).put({ conversationId: conversation.id, messages } satisfies MessagesRecord);
+    }
+}
+
+/**
+ * Move chat history saved by the old single-key localStorage format into
+ * IndexedDB. Runs once; the localStorage key is removed afterwards.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase, name: string): Promise<void> {
+    const existing = await requestToPromise(db.transaction(META).objectStore(META).get(name));
+    if (existing) return;
+
+    const raw = localStorage.getItem(name);
+    if (raw === null) return;
+
+    try {
+        const { state, version } = JSON.parse(raw) as StorageValue<ChatPersistedState>;
+        const transaction = db.transaction([CONVERSATIONS, MESSAGES, META], 'readwrite');
+        for (const conversation of state.conversations ?? []) {
+            putConversation(transaction, reviveConversation(conversation));
+        }
+        transaction.objectStore(META).put({
+            name,
+            version,
+            activeConversationId: state.activeConversationId ?? null,
+        } satisfies MetaRecord);
+        await transactionDone(transaction);
+        localStorage.removeItem(name);
+    } catch (error) {
+        console.error('Failed to migrate chat history to IndexedDB:', error);
+    }
+}
+
+/**
+ * Read the stored messages of one conversation. Hydration only loads the
+ * conversation headers; message bodies are fetched when a chat is opened.
+ */
+export async function loadStoredMessages(conversationId: string): Promise<Message[]> {
+    const db = await getDatabase();
+    if (!db) return [];
+
+    try {
+        const record = await requestToPromise<MessagesRecord | undefined>(
+            db.transaction(MESSAGES).objectStore(MESSAGES).get(conversationId)
+        );
+        return (record?.messages ?? []).map(reviveMessage);
+    } catch (error) {
+        console.error(`Failed to load messages for ${conversationId}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Persist storage for the chat store. Saves are deferred like
+ * `createDeferredJSONStorage`, then only conversations whose object changed
+ * since the last save are written; immer keeps untouched ones identical.
+ * Falls back to localStorage when IndexedDB cannot be opened.
+ */
+export function createChatStorage(delay: number): PersistStorage<ChatPersistedState> {
+    const fallback = createDeferredJSONStorage<ChatPersistedState>(delay);
+    // The conversation objects as last written, by id
+    const written = new Map<string, Conversation>();
+    let pending: { name: string; value: StorageValue<ChatPersistedState> } | null = null;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let writing = Promise.resolve();
+
+    const write = async (db: IDBDatabase, name: string, value: StorageValue<ChatPersistedState>) => {
+        const { conversations, activeConversationId } = value.state;
+        const transaction = db.transaction([CONVERSATIONS, MESSAGES, META], 'readwrite');
+        const messageStore = transaction.objectStore(MESSAGES);
+        const partial: Conversation[] = [];
+
+        for (const conversation of conversations) {
+            const previous = written.get(conversation.id);
+            if (previous === conversation) continue;
+
+            if (previous?.messages === conversation.messages) {
+                putConversation(transaction, conversation, false);
+            } else if (conversation.messages.length < conversation.messageCount) {
+                // Bodies not loaded yet: merge into the stored list instead of replacing it
+                partial.push(conversation);
+            } else {
+                putConversation(transaction, conversation);
+            }
+            written.set(conversation.id, conversation);
+        }
+
+        const ids = new Set(conversations.map(c => c.id));
+        for (const id of [...written.keys()]) {
+            if (ids.has(id)) continue;
+            transaction.objectStore(CONVERSATIONS).delete(id);
+            messageStore.delete(id);
+            written.delete(id);
+        }
+
+        transaction.objectStore(META).put({ name, version: value.version, activeConversationId } satisfies MetaRecord);
+
+        for (const conversation of partial) {
+            putConversation(transaction, conversation, false);
+            const record = await requestToPromise<MessagesRecord | undefined>(messageStore.get(conversation.id));
+            const byId = new Map((record?.messages ?? []).map(m => [m.id, m]));
+            conversation.messages.forEach(m => byId.set(m.id, m));
+            messageStore.put({
+                conversationId: conversation.id,
+                messages: [...byId.values()].sort((a, b) => parseDate(a.timestamp).getTime() - parseDate(b.timestamp).getTime()),
+            } satisfies MessagesRecord);
+        }
+
+        await transactionDone(transaction);
+    };
+
+    const flush = () => {
+        if (timeoutId) clearTimeout(timeoutId);
+        timeoutId = null;
+        if (!pending) return;
+
+        const { name, value } = pending;
+        pending = null;
+        writing = writing
+            .then(async () => {
+                const db = await getDatabase();
+                if (db) await write(db, name, value);
+                else fallback.setItem(name, value);
+            })
+            .catch((error) => {
+                // Rewrite everything next time rather than trust a half-applied diff
+                written.clear();
+                console.error('Failed to save chat history:', error);
+            });
+    };
+
+    if (typeof window !== 'undefined') {
+        window.addEventListener('pagehide', flush);
+    }
+
+    return {
+        getItem: async (name) => {
+            if (pending?.name === name) return pending.value;
+
+            const db = await getDatabase();
+            if (!db) {
+                const stored = await fallback.getItem(name);
+                return stored && {
+                    ...stored,
+                    state: { ...stored.state, conversations: stored.state.conversations.map(reviveConversation) },
+                };
+            }
+
+            await migrateFromLocalStorage(db, name);
+            const transaction = db.transaction([CONVERSATIONS, META]);
+            const [meta, records] = await Promise.all([
+                requestToPromise<MetaRecord | undefined>(transaction.objectStore(META).get(name)),
+                requestToPromise<ConversationRecord[]>(transaction.objectStore(CONVERSATIONS).getAll()),
+            ]);
+            if (!meta) return null;
+
+            const conversations = records
+                .map(record => reviveConversation({ ...record, messages: [] }))
+                .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+            conversations.forEach(c => written.set(c.id, c));
+
+            return {
+                version: meta.version,
+                state: { conversations, activeConversationId: meta.activeConversationId },
+            };
+        },
+        setItem: (name, value) => {
+            pending = { name, value };
+            if (!timeoutId) timeoutId = setTimeout(flush, delay);
+        },
+        removeItem: async (name) => {
+            pending = null;
+            written.clear();
+            const db = await getDatabase();
+            if (!db) {
+                await fallback.removeItem(name);
+                return;
+            }
+            const transaction = db.transaction([CONVERSATIONS, MESSAGES, META], 'readwrite');
+            transaction.objectStore(CONVERSATIONS).clear();
+            transaction.objectStore(MESSAGES).clear();
+            transaction.objectStore(META).delete(name);
+            await transactionDone(transaction);
+        },
+    };
+}
@@ -0,0 +1,66 @@
+// Passphrase-based encryption with WebCrypto: PBKDF2 key derivation and AES-GCM
+
+// Ciphertext and its initialization vector, both base64
+export interface EncryptedValue {
+    iv: string;
+    data: string;
+}
+
+// OWASP guidance for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+export function generateSalt(): string {
+    return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Derive a non-extractable AES-GCM key from a passphrase
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a value; rejects when the key is wrong or the data was tampered with
+ */
+export async function decryptText(key: CryptoKey, value: EncryptedValue): Promise<string> {
+    const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(value.iv) },
+        key,
+        fromBase64(value.data)
+    );
+    return new TextDecoder().decode(data);
+}
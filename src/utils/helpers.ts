@@ -83,6 +83,25 @@ export function formatDuration(ms: number): string {
     return `${(ms / 60000).toFixed(1)}min`;
 }
 
+/**
+ * Format a token count compactly
+ */
+export function formatTokens(count: number): string {
+    if (count < 1000) return `${count}`;
+    if (count < 1000000) return `${(count / 1000).toFixed(1)}k`;
+    return `${(count / 1000000).toFixed(1)}M`;
+}
+
+/**
+ * Format an estimated cost in USD, keeping fractions of a cent visible
+ */
+export function formatCost(usd: number): string {
+    if (usd === 0) return '$0';
+    if (usd < 0.0001) return '<$0.0001';
+    if (usd < 0.01) return `$${usd.toFixed(4)}`;
+    return `$${usd.toFixed(2)}`;
+}
+
 /**
  * Truncate text with ellipsis
  */
@@ -152,3 +171,25 @@ export function sanitizeForFirestore<T>(obj: T): T {
 
     return obj;
 }
+
+/**
+ * Parse a date coming back from Firestore, JSON or localStorage, falling back to now
+ */
+export function parseDate(date: unknown): Date {
+    try {
+        if (!date) return new Date();
+        // Handle Firestore Timestamp
+        if (typeof (date as { toDate?: unknown }).toDate === 'function') {
+            return (date as { toDate: () => Date }).toDate();
+        }
+
+        // Handle empty object {} case which causes RangeError in new Date()
+        if (typeof date === 'object' && Object.keys(date).length === 0) return new Date();
+
+        const d = new Date(date as string | number | Date);
+        if (isNaN(d.getTime())) return new Date();
+        return d;
+    } catch {
+        return new Date();
+    }
+}
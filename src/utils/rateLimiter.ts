@@ -140,6 +140,17 @@ export async function withRetry<T>(
     throw lastError;
 }
 
+// Errors that mean the model is rate limited or temporarily unavailable
+export function isRateLimitOrUnavailable(error: Error): boolean {
+    const message = error.message.toLowerCase();
+    return message.includes('429') ||
+        message.includes('503') ||
+        message.includes('resource_exhausted') ||
+        message.includes('rate limit') ||
+        message.includes('overloaded') ||
+        message.includes('unavailable');
+}
+
 // Debounce utility
 export function debounce<T extends (...args: Parameters<T>) => ReturnType<T>>(
     fn: T,
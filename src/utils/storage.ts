@@ -1,4 +1,5 @@
 // Storage utilities for local persistence
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
 
 const STORAGE_PREFIX = 'ai-assistant:';
 
@@ -63,3 +64,46 @@ export function getSessionItem<T>(key: string, defaultValue: T): T {
         return defaultValue;
     }
 }
+
+/**
+ * Persist storage for zustand that serializes at most once per `delay`.
+ * Stores that change on every streamed token would otherwise stringify
+ * their whole state each time. Pending state is written when the page hides.
+ */
+export function createDeferredJSONStorage<S>(delay: number): PersistStorage<S> {
+    const pending = new Map<string, StorageValue<S>>();
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        if (timeoutId) clearTimeout(timeoutId);
+        timeoutId = null;
+        for (const [name, value] of pending) {
+            try {
+                localStorage.setItem(name, JSON.stringify(value));
+            } catch (error) {
+                console.error(`Failed to save to localStorage: ${name}`, error);
+            }
+        }
+        pending.clear();
+    };
+
+    if (typeof window !== 'undefined') {
+        window.addEventListener('pagehide', flush);
+    }
+
+    return {
+        getItem: (name) => {
+            if (pending.has(name)) return pending.get(name)!;
+            const item = localStorage.getItem(name);
+            return item === null ? null : JSON.parse(item) as StorageValue<S>;
+        },
+        setItem: (name, value) => {
+            pending.set(name, value);
+            if (!timeoutId) timeoutId = setTimeout(flush, delay);
+        },
+        removeItem: (name) => {
+            pending.delete(name);
+            localStorage.removeItem(name);
+        },
+    };
+}